@@ -1,17 +1,90 @@
-import { useState } from 'react';
+import { useCallback } from 'react';
+import {
+  BrowserRouter,
+  Navigate,
+  Outlet,
+  Route,
+  Routes,
+  useLocation,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { FollowProvider } from './contexts/FollowProvider';
 import Auth from './components/Auth';
+import CompleteProfile from './components/CompleteProfile';
+import ResetPassword from './components/ResetPassword';
 import Layout from './components/Layout';
 import Profile from './components/Profile';
+import PublicProfile from './components/profile/PublicProfile';
 import IdeasHub from './components/sections/IdeasHub';
 import CommunityMedia from './components/sections/CommunityMedia';
 import EventsSection from './components/sections/EventsSection';
 import CollaborationZone from './components/sections/CollaborationZone';
+import ProjectDetail from './components/collaboration/ProjectDetail';
+import Leaderboard from './components/sections/Leaderboard';
+import FollowingFeed from './components/sections/FollowingFeed';
+import SearchResults from './components/SearchResults';
+import ModerationQueue from './components/moderation/ModerationQueue';
+import { isModerator } from './lib/moderation';
+import { SearchResult } from './lib/search';
+import { getItemPath, getProfilePath, sectionPaths } from './lib/routes';
+
+function SearchPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const openResult = useCallback(
+    (result: SearchResult) => {
+      navigate(
+        result.result_type === 'profile'
+          ? getProfilePath(result.title)
+          : getItemPath(result.result_type, result.id)
+      );
+    },
+    [navigate]
+  );
+
+  return <SearchResults query={searchParams.get('q') ?? ''} onOpenResult={openResult} />;
+}
+
+function ProfilePage() {
+  const { username } = useParams();
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  // Fall back to the Idea Hub when the profile was opened directly rather than from inside the app.
+  const goBack = () => (location.key === 'default' ? navigate(sectionPaths.ideas) : navigate(-1));
+
+  if (username === profile.username) {
+    return <Profile onBack={goBack} />;
+  }
+
+  return <PublicProfile key={username} username={username ?? ''} onBack={goBack} />;
+}
+
+function ModerationPage() {
+  const { profile } = useAuth();
+
+  if (!isModerator(profile?.role)) {
+    return <Navigate to={sectionPaths.ideas} replace />;
+  }
+
+  return <ModerationQueue />;
+}
 
 function AppContent() {
-  const { user, loading } = useAuth();
-  const [activeSection, setActiveSection] = useState('ideas');
-  const [showProfile, setShowProfile] = useState(false);
+  const { user, loading, profileMissing, passwordRecovery } = useAuth();
 
   if (loading) {
     return (
@@ -25,41 +98,48 @@ function AppContent() {
     return <Auth />;
   }
 
-  if (showProfile) {
-    return <Profile onBack={() => setShowProfile(false)} />;
+  if (passwordRecovery) {
+    return <ResetPassword />;
   }
 
-  const renderSection = () => {
-    switch (activeSection) {
-      case 'ideas':
-        return <IdeasHub />;
-      case 'media':
-        return <CommunityMedia />;
-      case 'events':
-        return <EventsSection />;
-      case 'collaboration':
-        return <CollaborationZone />;
-      default:
-        return <IdeasHub />;
-    }
-  };
+  if (profileMissing) {
+    return <CompleteProfile />;
+  }
 
   return (
-    <Layout
-      activeSection={activeSection}
-      onSectionChange={setActiveSection}
-      onProfileClick={() => setShowProfile(true)}
-    >
-      {renderSection()}
-    </Layout>
+    <Routes>
+      <Route path="/u/:username" element={<ProfilePage />} />
+      <Route
+        element={
+          <Layout>
+            <Outlet />
+          </Layout>
+        }
+      >
+        <Route path={sectionPaths.following} element={<FollowingFeed />} />
+        <Route path={`${sectionPaths.ideas}/:id?`} element={<IdeasHub />} />
+        <Route path={`${sectionPaths.media}/:id?`} element={<CommunityMedia />} />
+        <Route path={`${sectionPaths.events}/:id?`} element={<EventsSection />} />
+        <Route path={sectionPaths.collaboration} element={<CollaborationZone />} />
+        <Route path={`${sectionPaths.collaboration}/:id`} element={<ProjectDetail />} />
+        <Route path={sectionPaths.leaderboard} element={<Leaderboard />} />
+        <Route path={sectionPaths.search} element={<SearchPage />} />
+        <Route path={sectionPaths.moderation} element={<ModerationPage />} />
+      </Route>
+      <Route path="*" element={<Navigate to={sectionPaths.ideas} replace />} />
+    </Routes>
   );
 }
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <FollowProvider>
+          <AppContent />
+        </FollowProvider>
+      </AuthProvider>
+    </BrowserRouter>
   );
 }
 
@@ -1,24 +1,45 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { LogIn, UserPlus } from 'lucide-react';
+import { useUsernameAvailability } from '../hooks/useUsernameAvailability';
+import { OAuthProvider, oauthProviderKeys, oauthProviders } from '../lib/oauth';
+import { LogIn, Mail, UserPlus } from 'lucide-react';
+import UsernameStatusHint from './UsernameStatusHint';
+import { oauthProviderIcons } from './oauthProviderIcons';
+
+type EmailLinkMode = 'magicLink' | 'resetPassword';
 
 export default function Auth() {
   const [isSignUp, setIsSignUp] = useState(false);
+  const [emailLinkMode, setEmailLinkMode] = useState<EmailLinkMode | null>(null);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [username, setUsername] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const { signIn, signUp, signInWithProvider, sendMagicLink, sendPasswordReset } = useAuth();
+  const usernameCheck = useUsernameAvailability(isSignUp ? username : '');
+  const usernameBlocked = isSignUp && ['invalid', 'taken', 'checking'].includes(usernameCheck.status);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setLoading(true);
 
     try {
-      if (isSignUp) {
-        await signUp(email, password, username);
+      if (emailLinkMode === 'magicLink') {
+        await sendMagicLink(email);
+        setNotice(`Check ${email} for a link to sign in.`);
+      } else if (emailLinkMode === 'resetPassword') {
+        await sendPasswordReset(email);
+        setNotice(`If ${email} has an account, a link to reset the password is on its way.`);
+      } else if (isSignUp) {
+        const { needsConfirmation } = await signUp(email, password, username.trim());
+        if (needsConfirmation) {
+          setNotice(`Check ${email} for a link to confirm your account, then sign in.`);
+          setIsSignUp(false);
+        }
       } else {
         await signIn(email, password);
       }
@@ -33,6 +54,27 @@ export default function Auth() {
     }
   };
 
+  // On success the browser is redirected to the provider, so loading is only reset on failure.
+  const handleProviderSignIn = async (provider: OAuthProvider) => {
+    setError('');
+    setNotice('');
+    setLoading(true);
+
+    try {
+      await signInWithProvider(provider);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (signUp: boolean, linkMode: EmailLinkMode | null = null) => {
+    setIsSignUp(signUp);
+    setEmailLinkMode(linkMode);
+    setError('');
+    setNotice('');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900 to-purple-900 flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PGRlZnM+PHBhdHRlcm4gaWQ9ImdyaWQiIHdpZHRoPSI2MCIgaGVpZ2h0PSI2MCIgcGF0dGVyblVuaXRzPSJ1c2VyU3BhY2VPblVzZSI+PHBhdGggZD0iTSAxMCAwIEwgMCAwIDAgMTAiIGZpbGw9Im5vbmUiIHN0cm9rZT0icmdiYSgyNTUsMjU1LDI1NSwwLjAzKSIgc3Ryb2tlLXdpZHRoPSIxIi8+PC9wYXR0ZXJuPjwvZGVmcz48cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSJ1cmwoI2dyaWQpIi8+PC9zdmc+')] opacity-20"></div>
@@ -47,7 +89,7 @@ export default function Auth() {
 
         <div className="flex gap-2 mb-6">
           <button
-            onClick={() => setIsSignUp(false)}
+            onClick={() => switchMode(false)}
             className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
               !isSignUp
                 ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/50'
@@ -57,7 +99,7 @@ export default function Auth() {
             Sign In
           </button>
           <button
-            onClick={() => setIsSignUp(true)}
+            onClick={() => switchMode(true)}
             className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
               isSignUp
                 ? 'bg-purple-600 text-white shadow-lg shadow-purple-500/50'
@@ -82,6 +124,7 @@ export default function Auth() {
                 placeholder="gamer123"
                 required={isSignUp}
               />
+              <UsernameStatusHint status={usernameCheck.status} message={usernameCheck.message} />
             </div>
           )}
 
@@ -99,19 +142,32 @@ export default function Auth() {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Password
-            </label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-4 py-3 bg-gray-900/50 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white placeholder-gray-500"
-              placeholder="••••••••"
-              required
-            />
-          </div>
+          {!emailLinkMode && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-300">
+                  Password
+                </label>
+                {!isSignUp && (
+                  <button
+                    type="button"
+                    onClick={() => switchMode(false, 'resetPassword')}
+                    className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                  >
+                    Forgot password?
+                  </button>
+                )}
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-900/50 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white placeholder-gray-500"
+                placeholder="••••••••"
+                required
+              />
+            </div>
+          )}
 
           {error && (
             <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
@@ -119,13 +175,24 @@ export default function Auth() {
             </div>
           )}
 
+          {notice && (
+            <div className="bg-blue-500/10 border border-blue-500/50 text-blue-300 px-4 py-3 rounded-lg text-sm">
+              {notice}
+            </div>
+          )}
+
           <button
             type="submit"
-            disabled={loading}
+            disabled={loading || usernameBlocked}
             className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {loading ? (
               'Loading...'
+            ) : emailLinkMode ? (
+              <>
+                <Mail size={20} />
+                {emailLinkMode === 'magicLink' ? 'Email Me a Sign-In Link' : 'Send Reset Link'}
+              </>
             ) : isSignUp ? (
               <>
                 <UserPlus size={20} />
@@ -138,7 +205,41 @@ export default function Auth() {
               </>
             )}
           </button>
+
+          {!isSignUp && (
+            <button
+              type="button"
+              onClick={() => switchMode(false, emailLinkMode ? null : 'magicLink')}
+              className="w-full text-sm text-gray-400 hover:text-blue-400 transition-colors"
+            >
+              {emailLinkMode ? 'Back to sign in with password' : 'Sign in with an email link instead'}
+            </button>
+          )}
         </form>
+
+        <div className="flex items-center gap-3 my-6">
+          <div className="flex-1 border-t border-gray-700" />
+          <span className="text-xs text-gray-500">or continue with</span>
+          <div className="flex-1 border-t border-gray-700" />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {oauthProviderKeys.map((provider) => {
+            const { icon: Icon, color } = oauthProviderIcons[provider];
+            return (
+              <button
+                key={provider}
+                type="button"
+                onClick={() => handleProviderSignIn(provider)}
+                disabled={loading}
+                className={`flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed ${color}`}
+              >
+                <Icon size={16} />
+                {oauthProviders[provider].label}
+              </button>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
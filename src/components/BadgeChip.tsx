@@ -0,0 +1,37 @@
+import { useBadgeDefinitions } from '../hooks/useBadgeDefinitions';
+import { Award } from 'lucide-react';
+import { badgeIcons } from './badgeIcons';
+
+interface BadgeChipProps {
+  name: string;
+  size?: 'sm' | 'md';
+}
+
+export default function BadgeChip({ name, size = 'md' }: BadgeChipProps) {
+  const definition = useBadgeDefinitions().find((d) => d.name === name);
+  const Icon = (definition && badgeIcons[definition.icon]) || Award;
+
+  return (
+    <span className="relative group inline-flex">
+      <span
+        className={`flex items-center gap-1 text-xs bg-yellow-600/20 text-yellow-400 ${
+          size === 'sm' ? 'px-2 py-0.5 rounded' : 'px-3 py-1 rounded-full'
+        }`}
+      >
+        <Icon size={size === 'sm' ? 10 : 12} />
+        {name}
+      </span>
+      {definition?.description && (
+        <span className="pointer-events-none absolute left-1/2 bottom-full mb-2 -translate-x-1/2 w-56 hidden group-hover:block z-20">
+          <span className="block bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 shadow-lg text-left">
+            <span className="flex items-center gap-1 text-xs font-semibold text-yellow-400 mb-1">
+              <Icon size={12} />
+              {name}
+            </span>
+            <span className="block text-xs text-gray-300">{definition.description}</span>
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useUsernameAvailability } from '../hooks/useUsernameAvailability';
+import { getProviderUsername } from '../lib/oauth';
+import { LogOut, UserCheck } from 'lucide-react';
+import UsernameStatusHint from './UsernameStatusHint';
+
+// Shown to signed-in users whose profile was never created, e.g. accounts from before
+// profiles were created by the sign-up trigger, whose chosen name was taken meanwhile, or
+// who signed in with a provider whose username couldn't be used.
+export default function CompleteProfile() {
+  const { user, completeProfile, signOut } = useAuth();
+  const [username, setUsername] = useState(
+    () => user?.user_metadata?.username ?? (user ? getProviderUsername(user) : '')
+  );
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const usernameCheck = useUsernameAvailability(username);
+  const usernameBlocked = ['invalid', 'taken', 'checking'].includes(usernameCheck.status);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await completeProfile(username.trim());
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900 to-purple-900 flex items-center justify-center p-4">
+      <div className="relative bg-gray-800/90 backdrop-blur-xl rounded-2xl shadow-2xl p-8 w-full max-w-md border border-blue-500/20">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 text-transparent bg-clip-text mb-2">
+            Complete your profile
+          </h1>
+          <p className="text-gray-400">Pick a username to finish setting up {user?.email}.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Username
+            </label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-3 bg-gray-900/50 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white placeholder-gray-500"
+              placeholder="gamer123"
+              required
+            />
+            <UsernameStatusHint status={usernameCheck.status} message={usernameCheck.message} />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || usernameBlocked}
+            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {loading ? (
+              'Loading...'
+            ) : (
+              <>
+                <UserCheck size={20} />
+                Continue
+              </>
+            )}
+          </button>
+
+          <button
+            type="button"
+            onClick={signOut}
+            className="w-full flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-red-400 transition-colors"
+          >
+            <LogOut size={16} />
+            Sign out
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useFollows } from '../contexts/followContext';
+import { UserCheck, UserPlus } from 'lucide-react';
+
+interface FollowButtonProps {
+  userId: string;
+  compact?: boolean;
+  onChange?: (following: boolean) => void;
+}
+
+export default function FollowButton({ userId, compact = false, onChange }: FollowButtonProps) {
+  const { user } = useAuth();
+  const { isFollowing, follow, unfollow } = useFollows();
+  const [busy, setBusy] = useState(false);
+
+  if (!user || user.id === userId) return null;
+
+  const following = isFollowing(userId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setBusy(true);
+    try {
+      if (following) {
+        await unfollow(userId);
+      } else {
+        await follow(userId);
+      }
+      onChange?.(!following);
+    } catch (error) {
+      console.error('Error updating follow:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (compact) {
+    return (
+      <button
+        onClick={handleClick}
+        disabled={busy}
+        className={`text-xs font-medium transition-colors disabled:opacity-50 ${
+          following ? 'text-gray-500 hover:text-red-400' : 'text-blue-400 hover:text-blue-300'
+        }`}
+      >
+        {following ? 'Following' : 'Follow'}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={busy}
+      className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all disabled:opacity-50 ${
+        following
+          ? 'bg-gray-700 text-gray-200 hover:bg-red-600/20 hover:text-red-400'
+          : 'bg-gradient-to-r from-blue-600 to-purple-600 text-white hover:from-blue-700 hover:to-purple-700'
+      }`}
+    >
+      {following ? <UserCheck size={18} /> : <UserPlus size={18} />}
+      {following ? 'Following' : 'Follow'}
+    </button>
+  );
+}
@@ -1,25 +1,43 @@
 import { useState } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Lightbulb, Newspaper, Trophy, Users, Search, Bell, LogOut, Menu, X } from 'lucide-react';
+import { isModerator } from '../lib/moderation';
+import { getItemPath, getProfilePath, getSearchPath, sectionPaths } from '../lib/routes';
+import { Rss, Lightbulb, Newspaper, Trophy, Users, Crown, Shield, Search, LogOut, Menu, X } from 'lucide-react';
+import NotificationsMenu from './NotificationsMenu';
+import ReputationScore from './ReputationScore';
 
 interface LayoutProps {
   children: React.ReactNode;
-  activeSection: string;
-  onSectionChange: (section: string) => void;
-  onProfileClick?: () => void;
 }
 
-export default function Layout({ children, activeSection, onSectionChange, onProfileClick }: LayoutProps) {
+export default function Layout({ children }: LayoutProps) {
   const { profile, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const isSearchPage = location.pathname === sectionPaths.search;
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [searchQuery, setSearchQuery] = useState(() => (isSearchPage ? searchParams.get('q') ?? '' : ''));
 
   const navItems = [
-    { id: 'ideas', label: 'Idea Hub', icon: Lightbulb },
-    { id: 'media', label: 'Community Media', icon: Newspaper },
-    { id: 'events', label: 'Events', icon: Trophy },
-    { id: 'collaboration', label: 'Collaboration', icon: Users },
+    { path: sectionPaths.following, label: 'Following', icon: Rss },
+    { path: sectionPaths.ideas, label: 'Idea Hub', icon: Lightbulb },
+    { path: sectionPaths.media, label: 'Community Media', icon: Newspaper },
+    { path: sectionPaths.events, label: 'Events', icon: Trophy },
+    { path: sectionPaths.collaboration, label: 'Collaboration', icon: Users },
+    { path: sectionPaths.leaderboard, label: 'Leaderboard', icon: Crown },
+    ...(isModerator(profile?.role) ? [{ path: sectionPaths.moderation, label: 'Moderation', icon: Shield }] : []),
   ];
 
+  // Results update as you type once the search page is open; elsewhere Enter opens it.
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    if (isSearchPage) {
+      navigate(getSearchPath(query), { replace: true });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <div className="flex h-screen overflow-hidden">
@@ -45,11 +63,11 @@ export default function Layout({ children, activeSection, onSectionChange, onPro
           <nav className="flex-1 p-4 space-y-2">
             {navItems.map((item) => {
               const Icon = item.icon;
-              const isActive = activeSection === item.id;
+              const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
               return (
                 <button
-                  key={item.id}
-                  onClick={() => onSectionChange(item.id)}
+                  key={item.path}
+                  onClick={() => navigate(item.path)}
                   className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all ${
                     isActive
                       ? 'bg-gradient-to-r from-blue-600 to-purple-600 shadow-lg shadow-blue-500/30'
@@ -87,7 +105,16 @@ export default function Layout({ children, activeSection, onSectionChange, onPro
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
                   <input
-                    type="text"
+                    type="search"
+                    value={searchQuery}
+                    onChange={(e) => handleSearchChange(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !isSearchPage) {
+                        navigate(getSearchPath(searchQuery));
+                      } else if (e.key === 'Escape') {
+                        handleSearchChange('');
+                      }
+                    }}
                     placeholder="Search games, creators, events..."
                     className="w-full pl-10 pr-4 py-2 bg-gray-900/50 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white placeholder-gray-500"
                   />
@@ -95,13 +122,14 @@ export default function Layout({ children, activeSection, onSectionChange, onPro
               </div>
 
               <div className="flex items-center gap-4 ml-6">
-                <button className="relative p-2 rounded-lg hover:bg-gray-700 transition-colors">
-                  <Bell size={20} className="text-gray-400" />
-                  <span className="absolute top-1 right-1 w-2 h-2 bg-blue-500 rounded-full"></span>
-                </button>
+                <NotificationsMenu
+                  onOpenNotification={(notification) =>
+                    navigate(getItemPath(notification.target_type, notification.target_id))
+                  }
+                />
 
                 <button
-                  onClick={onProfileClick}
+                  onClick={() => profile && navigate(getProfilePath(profile.username))}
                   className="flex items-center gap-3 pl-4 border-l border-gray-700 hover:opacity-75 transition-opacity cursor-pointer"
                 >
                   <img
@@ -110,7 +138,10 @@ export default function Layout({ children, activeSection, onSectionChange, onPro
                     className="w-8 h-8 rounded-full ring-2 ring-blue-500/50"
                   />
                   <div className="text-sm text-left">
-                    <p className="font-medium">{profile?.username || 'User'}</p>
+                    <p className="flex items-center gap-2 font-medium">
+                      {profile?.username || 'User'}
+                      <ReputationScore points={profile?.reputation} />
+                    </p>
                     {profile?.badges && profile.badges.length > 0 && (
                       <p className="text-xs text-gray-400">{profile.badges[0]}</p>
                     )}
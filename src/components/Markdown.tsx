@@ -0,0 +1,135 @@
+import { ReactNode } from 'react';
+
+interface MarkdownProps {
+  source: string;
+}
+
+// Inline code, images, links, bold and italic, in that order of precedence.
+const INLINE_PATTERN = /`([^`]+)`|!\[([^\]]*)\]\(([^)\s]+)\)|\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|\*([^*]+)\*|_([^_]+)_/g;
+
+const isSafeUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  INLINE_PATTERN.lastIndex = 0;
+  while ((match = INLINE_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) nodes.push(text.slice(lastIndex, match.index));
+    const key = `${keyPrefix}-${match.index}`;
+    const [raw, code, alt, imageUrl, linkText, linkUrl, bold, italic, underscored] = match;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="bg-gray-900 px-1 rounded text-sm">{code}</code>);
+    } else if (imageUrl !== undefined) {
+      nodes.push(isSafeUrl(imageUrl)
+        ? <img key={key} src={imageUrl} alt={alt} className="rounded-lg max-h-96 my-2" />
+        : raw);
+    } else if (linkUrl !== undefined) {
+      nodes.push(isSafeUrl(linkUrl)
+        ? (
+          <a key={key} href={linkUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+            {linkText}
+          </a>
+        )
+        : raw);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, key)}</strong>);
+    } else {
+      nodes.push(<em key={key}>{renderInline(italic ?? underscored, key)}</em>);
+    }
+    lastIndex = match.index + raw.length;
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+};
+
+// Keeps single line breaks inside a paragraph, which is how most people write devlogs.
+const renderLines = (lines: string[], keyPrefix: string): ReactNode[] =>
+  lines.flatMap((line, i) => [
+    ...(i > 0 ? [<br key={`${keyPrefix}-br-${i}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${i}`),
+  ]);
+
+/**
+ * Renders the small Markdown subset used in devlogs: headings, paragraphs, lists, quotes,
+ * fenced code, inline formatting, links and images. Output is built from React elements
+ * only, and links and images must be http(s), so user input can never inject markup.
+ */
+export default function Markdown({ source }: MarkdownProps) {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(
+        <pre key={key} className="bg-gray-900 rounded-lg p-3 overflow-x-auto text-sm">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      const content = renderInline(heading[2], key);
+      blocks.push(
+        heading[1].length === 1 ? <h2 key={key} className="text-xl font-bold">{content}</h2>
+          : heading[1].length === 2 ? <h3 key={key} className="text-lg font-semibold">{content}</h3>
+            : <h4 key={key} className="font-semibold">{content}</h4>
+      );
+      i++;
+      continue;
+    }
+
+    if (/^[-*]\s+/.test(line) || /^\d+\.\s+/.test(line)) {
+      const ordered = /^\d+\.\s+/.test(line);
+      const itemPattern = ordered ? /^\d+\.\s+/ : /^[-*]\s+/;
+      const items: string[] = [];
+      while (i < lines.length && itemPattern.test(lines[i])) items.push(lines[i++].replace(itemPattern, ''));
+      const children = items.map((item, j) => <li key={j}>{renderInline(item, `${key}-${j}`)}</li>);
+      blocks.push(ordered
+        ? <ol key={key} className="list-decimal pl-6 space-y-1">{children}</ol>
+        : <ul key={key} className="list-disc pl-6 space-y-1">{children}</ul>);
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quoted.push(lines[i++].replace(/^>\s?/, ''));
+      blocks.push(
+        <blockquote key={key} className="border-l-4 border-gray-600 pl-4 text-gray-400">
+          {renderLines(quoted, key)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length
+      && lines[i].trim()
+      && !/^(#{1,3}\s|[-*]\s|\d+\.\s|>|```)/.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+  }
+
+  return <div className="space-y-3 text-gray-300 break-words">{blocks}</div>;
+}
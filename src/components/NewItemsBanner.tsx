@@ -0,0 +1,23 @@
+import { ArrowUp } from 'lucide-react';
+
+interface NewItemsBannerProps {
+  count: number;
+  label: string;
+  onShow: () => void;
+}
+
+export default function NewItemsBanner({ count, label, onShow }: NewItemsBannerProps) {
+  if (count === 0) return null;
+
+  return (
+    <div className="sticky top-4 z-40 flex justify-center mb-4 pointer-events-none">
+      <button
+        onClick={onShow}
+        className="pointer-events-auto flex items-center gap-2 bg-blue-600 text-white text-sm font-medium px-4 py-2 rounded-full shadow-lg shadow-blue-500/30 hover:bg-blue-700 transition-colors"
+      >
+        <ArrowUp size={16} />
+        {count} new {count === 1 ? label : `${label}s`}
+      </button>
+    </div>
+  );
+}
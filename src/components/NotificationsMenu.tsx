@@ -0,0 +1,221 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeTable } from '../hooks/useRealtimeTable';
+import { Bell, CheckCheck, MessageCircle, FileText, Star, Users, Calendar } from 'lucide-react';
+
+export interface Notification {
+  id: string;
+  type: string;
+  target_type: 'game_idea' | 'media_post' | 'event' | 'project';
+  target_id: string;
+  message: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationsMenuProps {
+  onOpenNotification: (notification: Notification) => void;
+}
+
+const NOTIFICATION_PAGE_SIZE = 20;
+
+const getNotificationIcon = (type: string) => {
+  switch (type) {
+    case 'idea_comment':
+      return MessageCircle;
+    case 'demo_request':
+    case 'demo_request_answered':
+      return FileText;
+    case 'project_feedback':
+      return Star;
+    case 'role_application':
+    case 'role_application_answered':
+      return Users;
+    case 'event_reminder':
+      return Calendar;
+    default:
+      return Bell;
+  }
+};
+
+const formatRelativeTime = (date: string) => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+export default function NotificationsMenu({ onOpenNotification }: NotificationsMenuProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [listResult, countResult] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('id, type, target_type, target_id, message, read_at, created_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(NOTIFICATION_PAGE_SIZE),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .is('read_at', null),
+      ]);
+
+      if (listResult.error) throw listResult.error;
+      if (countResult.error) throw countResult.error;
+      setNotifications(listResult.data || []);
+      setUnreadCount(countResult.count ?? 0);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  useRealtimeTable<Notification>('notifications', {
+    onInsert: (row) => {
+      setNotifications((prev) =>
+        prev.some((n) => n.id === row.id) ? prev : [row, ...prev].slice(0, NOTIFICATION_PAGE_SIZE)
+      );
+      if (!row.read_at) setUnreadCount((prev) => prev + 1);
+    },
+  }, user ? `user_id=eq.${user.id}` : undefined);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const markRead = async (ids: string[]) => {
+    if (!user || ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', ids);
+
+      if (error) throw error;
+      setNotifications((prev) => prev.map((n) => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+      setUnreadCount((prev) => Math.max(0, prev - ids.length));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .eq('user_id', user.id)
+        .is('read_at', null);
+
+      if (error) throw error;
+      setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at ?? readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+    setIsOpen(false);
+    onOpenNotification(notification);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => {
+          if (!isOpen) loadNotifications();
+          setIsOpen(!isOpen);
+        }}
+        className="relative p-2 rounded-lg hover:bg-gray-700 transition-colors"
+        title="Notifications"
+      >
+        <Bell size={20} className="text-gray-400" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-blue-500 rounded-full text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+            <h3 className="font-semibold">Notifications</h3>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600 disabled:cursor-default transition-colors"
+            >
+              <CheckCheck size={14} />
+              Mark all read
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-8">You're all caught up.</p>
+            ) : (
+              notifications.map((notification) => {
+                const Icon = getNotificationIcon(notification.type);
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full flex items-start gap-3 px-4 py-3 text-left border-b border-gray-700/50 hover:bg-gray-700/50 transition-colors ${
+                      notification.read_at ? '' : 'bg-blue-600/10'
+                    }`}
+                  >
+                    <Icon size={16} className={`mt-0.5 shrink-0 ${notification.read_at ? 'text-gray-500' : 'text-blue-400'}`} />
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm ${notification.read_at ? 'text-gray-400' : 'text-white'}`}>
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">{formatRelativeTime(notification.created_at)}</p>
+                    </div>
+                    {!notification.read_at && <span className="w-2 h-2 mt-1.5 bg-blue-500 rounded-full shrink-0" />}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
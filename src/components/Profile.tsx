@@ -1,39 +1,49 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { ArrowLeft, Plus, Trash2, ExternalLink, Edit2, Save, X, Youtube, Instagram, Twitter, Linkedin, FileText, Image as ImageIcon, Link as LinkIcon, Upload } from 'lucide-react';
+import { useFollows } from '../contexts/followContext';
+import { useUsernameAvailability } from '../hooks/useUsernameAvailability';
+import { useFollowCounts } from '../hooks/useFollowCounts';
+import { ArrowLeft, Camera, Plus, Trash2, ExternalLink, Edit2, Save, X, FileText, Image as ImageIcon, Link as LinkIcon } from 'lucide-react';
 import { uploadPortfolioFile, deletePortfolioFile } from '../lib/storage';
-
-interface PortfolioItem {
-  id: string;
-  title: string;
-  description: string;
-  image_url?: string;
-  file_url?: string;
-  file_type?: string;
-  file_name?: string;
-  tags: string[];
-  created_at: string;
-}
+import { getProfilePath } from '../lib/routes';
+import { USERNAME_CHANGE_COOLDOWN_DAYS } from '../lib/usernames';
+import { normalizeSocialLink, parseSocialLinks, SocialLinks, SocialPlatform, socialPlatformKeys, socialPlatforms } from '../lib/socialLinks';
+import BadgeChip from './BadgeChip';
+import ReputationScore from './ReputationScore';
+import AccountSettings from './profile/AccountSettings';
+import AvatarEditor from './profile/AvatarEditor';
+import SocialLinksList from './profile/SocialLinksList';
+import UsernameStatusHint from './UsernameStatusHint';
+import { socialPlatformIcons } from './profile/socialIcons';
+import { PortfolioItem } from './profile/types';
 
 interface ProfileProps {
   onBack: () => void;
 }
 
 export default function Profile({ onBack }: ProfileProps) {
-  const { user, profile } = useAuth();
+  const { user, profile, refreshProfile } = useAuth();
+  const navigate = useNavigate();
   const [isEditing, setIsEditing] = useState(false);
   const [portfolioItems, setPortfolioItems] = useState<PortfolioItem[]>([]);
   const [showPortfolioForm, setShowPortfolioForm] = useState(false);
   const [editingItem, setEditingItem] = useState<PortfolioItem | null>(null);
 
   const [profileData, setProfileData] = useState({
+    username: profile?.username || '',
     bio: profile?.bio || '',
-    youtube: '',
-    instagram: '',
-    twitter: '',
-    linkedin: '',
+    socialLinks: parseSocialLinks(profile?.social_links),
   });
+  const [socialLinkErrors, setSocialLinkErrors] = useState<Partial<Record<SocialPlatform, string>>>({});
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileError, setProfileError] = useState('');
+  const usernameCheck = useUsernameAvailability(isEditing ? profileData.username : '', profile?.username);
+  const [showAvatarEditor, setShowAvatarEditor] = useState(false);
+  const [followCounts] = useFollowCounts(profile?.id);
+  // The shared follow list stays current when the user follows someone elsewhere.
+  const { followingIds } = useFollows();
 
   const [portfolioFormData, setPortfolioFormData] = useState({
     title: '',
@@ -46,7 +56,6 @@ export default function Profile({ onBack }: ProfileProps) {
   });
 
   const [uploadingFile, setUploadingFile] = useState(false);
-  const [editingFileType, setEditingFileType] = useState<'image' | 'pdf' | 'link' | null>(null);
 
   const portfolioTags = ['Game Dev', 'Art', 'Music', 'Design', 'Code', 'Writing', 'Animation', '3D'];
 
@@ -72,32 +81,51 @@ export default function Profile({ onBack }: ProfileProps) {
 
   const handleProfileUpdate = async () => {
     if (!user) return;
+
+    const socialLinks: SocialLinks = {};
+    const errors: Partial<Record<SocialPlatform, string>> = {};
+    for (const platform of socialPlatformKeys) {
+      const input = profileData.socialLinks[platform]?.trim();
+      if (!input) continue;
+      const result = normalizeSocialLink(platform, input);
+      if ('error' in result) errors[platform] = result.error;
+      else socialLinks[platform] = result.url;
+    }
+
+    setSocialLinkErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const username = profileData.username.trim();
+    const usernameChanged = username !== profile?.username;
+    if (usernameChanged && ['invalid', 'taken', 'checking'].includes(usernameCheck.status)) return;
+
+    setSavingProfile(true);
+    setProfileError('');
     try {
       const { error } = await supabase
         .from('profiles')
         .update({
           bio: profileData.bio,
+          social_links: socialLinks,
+          ...(usernameChanged ? { username } : {}),
         })
         .eq('id', user.id);
 
-      if (error) throw error;
+      if (error) {
+        // 23505: unique violation, someone claimed the name since it was checked.
+        throw error.code === '23505' ? new Error(`${username} is already taken`) : error;
+      }
+      setProfileData({ ...profileData, username, socialLinks });
       setIsEditing(false);
+      await refreshProfile();
+      if (usernameChanged) {
+        navigate(getProfilePath(username), { replace: true });
+      }
     } catch (error) {
       console.error('Error updating profile:', error);
-    }
-  };
-
-  const socialMediaIcons = [
-    { key: 'youtube', icon: Youtube, label: 'YouTube', color: 'text-red-500 hover:text-red-400' },
-    { key: 'instagram', icon: Instagram, label: 'Instagram', color: 'text-pink-500 hover:text-pink-400' },
-    { key: 'twitter', icon: Twitter, label: 'Twitter', color: 'text-blue-400 hover:text-blue-300' },
-    { key: 'linkedin', icon: Linkedin, label: 'LinkedIn', color: 'text-blue-600 hover:text-blue-500' },
-  ];
-
-  const openSocialLink = (key: string) => {
-    const url = profileData[key as keyof typeof profileData];
-    if (url) {
-      window.open(url, '_blank');
+      setProfileError(error instanceof Error ? error.message : 'Could not save your profile');
+    } finally {
+      setSavingProfile(false);
     }
   };
 
@@ -126,7 +154,7 @@ export default function Profile({ onBack }: ProfileProps) {
         if (error) throw error;
       }
 
-      setPortfolioFormData({ title: '', description: '', image_url: '', tags: [] });
+      setPortfolioFormData({ title: '', description: '', image_url: '', file_url: '', file_type: '', file_name: '', tags: [] });
       setEditingItem(null);
       setShowPortfolioForm(false);
       loadPortfolioItems();
@@ -233,23 +261,50 @@ export default function Profile({ onBack }: ProfileProps) {
 
         <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 mb-8">
           <div className="flex items-start gap-6 mb-6">
-            <img
-              src={profile?.avatar_url || 'https://api.dicebear.com/7.x/avataaars/svg?seed=default'}
-              alt="Profile"
-              className="w-24 h-24 rounded-full ring-2 ring-blue-500/50"
-            />
+            <button
+              onClick={() => setShowAvatarEditor(true)}
+              className="relative group shrink-0 rounded-full"
+              title="Change avatar"
+            >
+              <img
+                src={profile?.avatar_url || 'https://api.dicebear.com/7.x/avataaars/svg?seed=default'}
+                alt="Profile"
+                className="w-24 h-24 rounded-full ring-2 ring-blue-500/50"
+              />
+              <span className="absolute inset-0 flex items-center justify-center rounded-full bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+                <Camera size={24} />
+              </span>
+            </button>
 
             <div className="flex-1">
-              <h1 className="text-3xl font-bold mb-2">{profile?.username || 'User'}</h1>
+              {isEditing ? (
+                <div className="mb-3">
+                  <input
+                    type="text"
+                    value={profileData.username}
+                    onChange={(e) => setProfileData({ ...profileData, username: e.target.value })}
+                    className="w-full max-w-xs px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-xl font-bold"
+                  />
+                  <UsernameStatusHint status={usernameCheck.status} message={usernameCheck.message} />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Your old username keeps redirecting here. You can rename once every {USERNAME_CHANGE_COOLDOWN_DAYS} days.
+                  </p>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 mb-2">
+                  <h1 className="text-3xl font-bold">{profile?.username || 'User'}</h1>
+                  <ReputationScore points={profile?.reputation} />
+                </div>
+              )}
+              <p className="text-sm text-gray-400 mb-2">
+                <span className="text-white font-medium">{followCounts.followers}</span>{' '}
+                {followCounts.followers === 1 ? 'follower' : 'followers'} ·{' '}
+                <span className="text-white font-medium">{followingIds.size}</span> following
+              </p>
               {profile?.badges && profile.badges.length > 0 && (
                 <div className="flex items-center gap-2 mb-3">
                   {profile.badges.map((badge) => (
-                    <span
-                      key={badge}
-                      className="text-xs bg-yellow-600/20 text-yellow-400 px-3 py-1 rounded-full flex items-center gap-1"
-                    >
-                      {badge}
-                    </span>
+                    <BadgeChip key={badge} name={badge} />
                   ))}
                 </div>
               )}
@@ -263,7 +318,8 @@ export default function Profile({ onBack }: ProfileProps) {
                   setIsEditing(true);
                 }
               }}
-              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              disabled={savingProfile}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
             >
               {isEditing ? (
                 <>
@@ -279,6 +335,12 @@ export default function Profile({ onBack }: ProfileProps) {
             </button>
           </div>
 
+          {profileError && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm mb-6">
+              {profileError}
+            </div>
+          )}
+
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-300 mb-2">Bio</label>
             {isEditing ? (
@@ -295,47 +357,44 @@ export default function Profile({ onBack }: ProfileProps) {
 
           <div>
             <h3 className="text-lg font-semibold mb-3">Social Media</h3>
-            <div className="flex items-center gap-2 mb-4">
-              {socialMediaIcons.map(({ key, icon: Icon, label, color }) => (
-                <div key={key} className="relative group">
-                  <button
-                    onClick={() => {
-                      if (isEditing) {
-                        const url = prompt(`Enter your ${label} URL:`);
-                        if (url) {
-                          setProfileData({ ...profileData, [key]: url });
-                        }
-                      } else if (profileData[key as keyof typeof profileData]) {
-                        openSocialLink(key);
-                      }
-                    }}
-                    className={`p-2 rounded-lg transition-all ${
-                      isEditing
-                        ? 'bg-gray-900 cursor-pointer'
-                        : profileData[key as keyof typeof profileData]
-                        ? 'cursor-pointer'
-                        : 'opacity-50 cursor-default'
-                    } ${color}`}
-                    title={label}
-                  >
-                    <Icon size={24} />
-                  </button>
-                  {isEditing && (
-                    <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 bg-gray-900 border border-gray-700 rounded-lg p-2 text-xs text-gray-300 whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-                      Click to edit
+            {isEditing ? (
+              <div className="space-y-3">
+                {socialPlatformKeys.map((platform) => {
+                  const { icon: Icon, color } = socialPlatformIcons[platform];
+                  return (
+                    <div key={platform}>
+                      <div className="flex items-center gap-3">
+                        <Icon size={24} className={color} />
+                        <input
+                          type="text"
+                          value={profileData.socialLinks[platform] || ''}
+                          onChange={(e) =>
+                            setProfileData({
+                              ...profileData,
+                              socialLinks: { ...profileData.socialLinks, [platform]: e.target.value },
+                            })
+                          }
+                          className={`flex-1 px-4 py-2 bg-gray-900 border rounded-lg focus:outline-none text-white ${
+                            socialLinkErrors[platform] ? 'border-red-500' : 'border-gray-700 focus:border-blue-500'
+                          }`}
+                          placeholder={socialPlatforms[platform].example}
+                        />
+                      </div>
+                      {socialLinkErrors[platform] && (
+                        <p className="text-xs text-red-400 mt-1 ml-9">{socialLinkErrors[platform]}</p>
+                      )}
                     </div>
-                  )}
-                  {profileData[key as keyof typeof profileData] && !isEditing && (
-                    <span className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-300 whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-                      Click to open
-                    </span>
-                  )}
-                </div>
-              ))}
-            </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <SocialLinksList links={profileData.socialLinks} />
+            )}
           </div>
         </div>
 
+        <AccountSettings />
+
         <div className="bg-gray-800 rounded-xl p-8 border border-gray-700">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold">Portfolio</h2>
@@ -600,6 +659,8 @@ export default function Profile({ onBack }: ProfileProps) {
           )}
         </div>
       </div>
+
+      {showAvatarEditor && <AvatarEditor onClose={() => setShowAvatarEditor(false)} />}
     </div>
   );
 }
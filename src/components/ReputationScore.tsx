@@ -0,0 +1,17 @@
+import { formatReputation } from '../lib/reputation';
+import { Zap } from 'lucide-react';
+
+interface ReputationScoreProps {
+  points?: number;
+}
+
+export default function ReputationScore({ points }: ReputationScoreProps) {
+  if (points === undefined) return null;
+
+  return (
+    <span className="inline-flex items-center gap-0.5 text-xs text-amber-400" title={`${points} reputation`}>
+      <Zap size={12} className="fill-amber-400" />
+      {formatReputation(points)}
+    </span>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useMemo } from 'react';
+import { searchAll, splitHighlights, SearchResult, SearchResultType } from '../lib/search';
+import { Lightbulb, Newspaper, Trophy, Users, User, Search } from 'lucide-react';
+
+interface SearchResultsProps {
+  query: string;
+  onOpenResult: (result: SearchResult) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const resultGroups: { type: SearchResultType; label: string; icon: typeof Lightbulb }[] = [
+  { type: 'game_idea', label: 'Game Ideas', icon: Lightbulb },
+  { type: 'media_post', label: 'Community Media', icon: Newspaper },
+  { type: 'event', label: 'Events', icon: Trophy },
+  { type: 'project', label: 'Projects', icon: Users },
+  { type: 'profile', label: 'Creators', icon: User },
+];
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-400/30 text-yellow-200 rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchResults({ query, onOpenResult }: SearchResultsProps) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await searchAll(query);
+        if (!cancelled) {
+          setResults(data);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error('Error searching:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  // Results are rendered group by group, so keyboard order follows the groups too.
+  const orderedResults = useMemo(
+    () => resultGroups.flatMap((group) => results.filter((r) => r.result_type === group.type)),
+    [results]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (orderedResults.length === 0) return;
+
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % orderedResults.length);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((prev) => (prev <= 0 ? orderedResults.length - 1 : prev - 1));
+      } else if (e.key === 'Enter' && activeIndex >= 0) {
+        e.preventDefault();
+        onOpenResult(orderedResults[activeIndex]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [orderedResults, activeIndex, onOpenResult]);
+
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    document.getElementById(`search-result-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!query.trim()) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto text-center text-gray-400">
+        <Search className="mx-auto mb-4" size={48} />
+        Search for game ideas, articles, events, projects and creators.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Search Results</h1>
+        <p className="text-gray-400">
+          {loading ? 'Searching' : `${results.length} results`} for "{query}"
+          <span className="text-gray-600"> · Use ↑ ↓ and Enter to navigate</span>
+        </p>
+      </div>
+
+      {!loading && results.length === 0 && (
+        <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center text-gray-400">
+          No matches found. Try different keywords.
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {resultGroups.map(({ type, label, icon: Icon }) => {
+          const groupResults = results.filter((r) => r.result_type === type);
+          if (groupResults.length === 0) return null;
+
+          return (
+            <section key={type}>
+              <div className="flex items-center gap-2 mb-3">
+                <Icon size={18} className="text-blue-400" />
+                <h2 className="text-lg font-semibold">{label}</h2>
+                <span className="text-xs text-gray-500">{groupResults.length}</span>
+              </div>
+              <div className="space-y-2">
+                {groupResults.map((result) => {
+                  const index = orderedResults.indexOf(result);
+                  const isActive = index === activeIndex;
+                  return (
+                    <button
+                      key={result.id}
+                      id={`search-result-${index}`}
+                      onClick={() => onOpenResult(result)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`w-full text-left p-4 rounded-lg border transition-all ${
+                        isActive
+                          ? 'bg-gray-700 border-blue-500'
+                          : 'bg-gray-800 border-gray-700 hover:border-blue-500/50'
+                      }`}
+                    >
+                      <h3 className="font-medium mb-1">
+                        <Highlighted text={result.title_highlight} />
+                      </h3>
+                      {result.snippet && (
+                        <p className="text-sm text-gray-400 line-clamp-2">
+                          <Highlighted text={result.snippet} />
+                        </p>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Check, Loader2, X } from 'lucide-react';
+import { UsernameStatus } from '../hooks/useUsernameAvailability';
+
+interface UsernameStatusHintProps {
+  status: UsernameStatus;
+  message: string;
+}
+
+export default function UsernameStatusHint({ status, message }: UsernameStatusHintProps) {
+  if (status === 'idle') return null;
+
+  const color =
+    status === 'available' ? 'text-green-400' : status === 'checking' || status === 'error' ? 'text-gray-400' : 'text-red-400';
+
+  return (
+    <p className={`flex items-center gap-1 text-xs mt-1 ${color}`}>
+      {status === 'checking' && <Loader2 size={12} className="animate-spin" />}
+      {status === 'available' && <Check size={12} />}
+      {(status === 'taken' || status === 'invalid') && <X size={12} />}
+      {message}
+    </p>
+  );
+}
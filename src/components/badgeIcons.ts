@@ -0,0 +1,12 @@
+import { Award, Heart, Lightbulb, Rocket, Shield, Star, Trophy } from 'lucide-react';
+
+// Keys stored in badge_definitions.icon; unknown keys fall back to Award.
+export const badgeIcons: Record<string, typeof Award> = {
+  award: Award,
+  heart: Heart,
+  lightbulb: Lightbulb,
+  rocket: Rocket,
+  shield: Shield,
+  star: Star,
+  trophy: Trophy,
+};
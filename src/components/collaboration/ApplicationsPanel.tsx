@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { getProfilePath } from '../../lib/routes';
+import { isWebUrl } from '../../lib/links';
+import { X, Check, Ban, ExternalLink, Inbox, Send } from 'lucide-react';
+import { ApplicationStatus, RoleApplication } from './types';
+
+const getLinkHost = (link: string) => {
+  try {
+    return new URL(link).hostname;
+  } catch {
+    return link;
+  }
+};
+
+interface ReceivedApplication extends RoleApplication {
+  collaborator_requests: {
+    role_type: string;
+    projects: {
+      title: string;
+    };
+  };
+  profiles: {
+    username: string;
+    avatar_url: string;
+  };
+}
+
+interface SentApplication extends RoleApplication {
+  collaborator_requests: {
+    role_type: string;
+    projects: {
+      title: string;
+    };
+  };
+}
+
+interface ApplicationsPanelProps {
+  onClose: () => void;
+  onAnswered: () => void;
+  onWithdrawn: (requestId: string) => void;
+}
+
+export default function ApplicationsPanel({ onClose, onAnswered, onWithdrawn }: ApplicationsPanelProps) {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<'received' | 'sent'>('received');
+  const [received, setReceived] = useState<ReceivedApplication[]>([]);
+  const [sent, setSent] = useState<SentApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | ApplicationStatus>('pending');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadApplications = async () => {
+      try {
+        const [receivedResult, sentResult] = await Promise.all([
+          supabase
+            .from('applications')
+            .select('*, collaborator_requests!inner(role_type, projects!inner(title, creator_id)), profiles(username, avatar_url)')
+            .eq('collaborator_requests.projects.creator_id', user.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('applications')
+            .select('*, collaborator_requests(role_type, projects(title))')
+            .eq('applicant_id', user.id)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (receivedResult.error) throw receivedResult.error;
+        if (sentResult.error) throw sentResult.error;
+        setReceived(receivedResult.data || []);
+        setSent(sentResult.data || []);
+      } catch (error) {
+        console.error('Error loading applications:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadApplications();
+  }, [user]);
+
+  const handleRespond = async (applicationId: string, status: 'accepted' | 'declined') => {
+    try {
+      const { data, error } = await supabase
+        .from('applications')
+        .update({ status })
+        .eq('id', applicationId)
+        .select('status, responded_at')
+        .single();
+
+      if (error) throw error;
+      setReceived(received.map((a) => (a.id === applicationId ? { ...a, ...data } : a)));
+      onAnswered();
+    } catch (error) {
+      console.error('Error answering application:', error);
+    }
+  };
+
+  const handleWithdraw = async (application: SentApplication) => {
+    if (!confirm('Withdraw this application?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('applications')
+        .delete()
+        .eq('id', application.id);
+
+      if (error) throw error;
+      setSent(sent.filter((a) => a.id !== application.id));
+      onWithdrawn(application.request_id);
+    } catch (error) {
+      console.error('Error withdrawing application:', error);
+    }
+  };
+
+  const getStatusColor = (status: ApplicationStatus) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-green-600/20 text-green-400';
+      case 'declined':
+        return 'bg-red-600/20 text-red-400';
+      default:
+        return 'bg-yellow-600/20 text-yellow-400';
+    }
+  };
+
+  const filteredReceived = statusFilter === 'all'
+    ? received
+    : received.filter((a) => a.status === statusFilter);
+
+  const pendingCount = received.filter((a) => a.status === 'pending').length;
+
+  // Only http(s) links are rendered as hrefs, whatever the stored array holds.
+  const renderLinks = (links: string[]) => {
+    const webLinks = links.filter(isWebUrl);
+    return webLinks.length > 0 && (
+      <div className="flex flex-wrap gap-2 mb-3">
+        {webLinks.map((link) => (
+          <a
+            key={link}
+            href={link}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            <ExternalLink size={12} />
+            {getLinkHost(link)}
+          </a>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] flex flex-col border border-gray-700">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold">Role Applications</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4">
+          <button
+            onClick={() => setActiveTab('received')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${
+              activeTab === 'received' ? 'bg-blue-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <Inbox size={16} />
+            Received
+            {pendingCount > 0 && (
+              <span className="text-xs bg-yellow-500 text-gray-900 px-1.5 rounded-full font-semibold">
+                {pendingCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setActiveTab('sent')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${
+              activeTab === 'sent' ? 'bg-blue-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <Send size={16} />
+            My Applications
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="text-gray-400">Loading...</div>
+          ) : activeTab === 'received' ? (
+            <>
+              <div className="flex gap-2 mb-4">
+                {(['pending', 'accepted', 'declined', 'all'] as const).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1 rounded-full text-sm capitalize transition-all ${
+                      statusFilter === status
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {status}
+                  </button>
+                ))}
+              </div>
+
+              {filteredReceived.length === 0 ? (
+                <p className="text-sm text-gray-400">No applications here.</p>
+              ) : (
+                <div className="space-y-3">
+                  {filteredReceived.map((application) => (
+                    <div key={application.id} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                          <Link to={getProfilePath(application.profiles.username)} className="shrink-0">
+                            <img
+                              src={application.profiles.avatar_url}
+                              alt={application.profiles.username}
+                              className="w-8 h-8 rounded-full"
+                            />
+                          </Link>
+                          <div>
+                            <p className="text-sm">
+                              <Link
+                                to={getProfilePath(application.profiles.username)}
+                                className="font-medium hover:text-blue-400 transition-colors"
+                              >
+                                {application.profiles.username}
+                              </Link>
+                              <span className="text-gray-400"> wants to be the {application.collaborator_requests.role_type} on </span>
+                              <span className="font-medium">{application.collaborator_requests.projects.title}</span>
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {new Date(application.created_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        <span className={`text-xs px-2 py-1 rounded capitalize ${getStatusColor(application.status)}`}>
+                          {application.status}
+                        </span>
+                      </div>
+
+                      <p className="text-sm text-gray-300 mb-3 whitespace-pre-wrap">{application.message}</p>
+                      {renderLinks(application.portfolio_links)}
+
+                      {application.status === 'pending' && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleRespond(application.id, 'accepted')}
+                            className="flex items-center gap-1 text-sm bg-green-600/20 text-green-400 px-3 py-1 rounded hover:bg-green-600/30 transition-colors"
+                          >
+                            <Check size={14} />
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => handleRespond(application.id, 'declined')}
+                            className="flex items-center gap-1 text-sm bg-red-600/20 text-red-400 px-3 py-1 rounded hover:bg-red-600/30 transition-colors"
+                          >
+                            <Ban size={14} />
+                            Decline
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : sent.length === 0 ? (
+            <p className="text-sm text-gray-400">You haven't applied for any roles yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {sent.map((application) => (
+                <div key={application.id} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {application.collaborator_requests.role_type} · {application.collaborator_requests.projects.title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Applied {new Date(application.created_at).toLocaleDateString()}
+                        {application.responded_at && ` · Answered ${new Date(application.responded_at).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded capitalize ${getStatusColor(application.status)}`}>
+                      {application.status}
+                    </span>
+                  </div>
+
+                  {application.status === 'pending' && (
+                    <button
+                      onClick={() => handleWithdraw(application)}
+                      className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                    >
+                      Withdraw application
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { X, Pencil, Trash2, Lock, RotateCcw, Check } from 'lucide-react';
+import { CollaboratorRequest, CollaboratorRequestStatus } from './types';
+
+interface OpenRolesManagerProps {
+  requests: CollaboratorRequest[];
+  roles: string[];
+  onClose: () => void;
+  onUpdated: (request: CollaboratorRequest) => void;
+  onDeleted: (requestId: string) => void;
+}
+
+const getRequestStatusColor = (status: CollaboratorRequestStatus) => {
+  switch (status) {
+    case 'filled':
+      return 'bg-green-600/20 text-green-400';
+    case 'closed':
+      return 'bg-gray-600/20 text-gray-400';
+    default:
+      return 'bg-blue-600/20 text-blue-400';
+  }
+};
+
+export default function OpenRolesManager({ requests, roles, onClose, onUpdated, onDeleted }: OpenRolesManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState({ role_type: '', description: '' });
+  const [error, setError] = useState('');
+
+  const projectIds = [...new Set(requests.map((r) => r.project_id))];
+
+  const updateRequest = async (requestId: string, changes: Partial<Pick<CollaboratorRequest, 'role_type' | 'description' | 'status'>>) => {
+    setError('');
+    try {
+      const { data, error } = await supabase
+        .from('collaborator_requests')
+        .update(changes)
+        .eq('id', requestId)
+        .select('role_type, description, status')
+        .single();
+
+      if (error) throw error;
+      const request = requests.find((r) => r.id === requestId);
+      if (request) onUpdated({ ...request, ...data });
+      return true;
+    } catch (err) {
+      console.error('Error updating role:', err);
+      setError('Could not update this role. Please try again.');
+      return false;
+    }
+  };
+
+  const startEditing = (request: CollaboratorRequest) => {
+    setEditingId(request.id);
+    setEditData({ role_type: request.role_type, description: request.description });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    const saved = await updateRequest(editingId, {
+      role_type: editData.role_type,
+      description: editData.description.trim(),
+    });
+    if (saved) setEditingId(null);
+  };
+
+  const handleDelete = async (requestId: string) => {
+    if (!confirm('Delete this role? Its applications are deleted too.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('collaborator_requests')
+        .delete()
+        .eq('id', requestId);
+
+      if (error) throw error;
+      onDeleted(requestId);
+    } catch (err) {
+      console.error('Error deleting role:', err);
+      setError('Could not delete this role. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] flex flex-col border border-gray-700">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold">My Roles</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {projectIds.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              You haven't posted any roles yet. Use "Post a Role" on one of your projects.
+            </p>
+          ) : (
+            projectIds.map((projectId) => {
+              const projectRequests = requests.filter((r) => r.project_id === projectId);
+              return (
+                <div key={projectId}>
+                  <h3 className="text-sm font-semibold text-gray-300 mb-3">{projectRequests[0].projects.title}</h3>
+                  <div className="space-y-3">
+                    {projectRequests.map((request) => (
+                      <div key={request.id} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+                        {editingId === request.id ? (
+                          <form onSubmit={handleSave} className="space-y-3">
+                            <select
+                              value={editData.role_type}
+                              onChange={(e) => setEditData({ ...editData, role_type: e.target.value })}
+                              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                            >
+                              {roles.map((role) => (
+                                <option key={role} value={role}>
+                                  {role}
+                                </option>
+                              ))}
+                            </select>
+                            <textarea
+                              value={editData.description}
+                              onChange={(e) => setEditData({ ...editData, description: e.target.value })}
+                              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-24 resize-none"
+                              required
+                            />
+                            <div className="flex gap-2 justify-end">
+                              <button
+                                type="button"
+                                onClick={() => setEditingId(null)}
+                                className="text-sm bg-gray-700 text-white px-3 py-1 rounded hover:bg-gray-600 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                type="submit"
+                                className="text-sm bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 transition-colors"
+                              >
+                                Save
+                              </button>
+                            </div>
+                          </form>
+                        ) : (
+                          <>
+                            <div className="flex items-start justify-between mb-2">
+                              <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">
+                                {request.role_type}
+                              </span>
+                              <span className={`text-xs px-2 py-1 rounded capitalize ${getRequestStatusColor(request.status)}`}>
+                                {request.status}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-300 mb-3 whitespace-pre-wrap">{request.description}</p>
+                            <div className="flex flex-wrap gap-2">
+                              <button
+                                onClick={() => startEditing(request)}
+                                className="flex items-center gap-1 text-sm bg-gray-700 text-gray-300 px-3 py-1 rounded hover:bg-gray-600 transition-colors"
+                              >
+                                <Pencil size={14} />
+                                Edit
+                              </button>
+                              {request.status === 'open' ? (
+                                <>
+                                  <button
+                                    onClick={() => updateRequest(request.id, { status: 'filled' })}
+                                    className="flex items-center gap-1 text-sm bg-green-600/20 text-green-400 px-3 py-1 rounded hover:bg-green-600/30 transition-colors"
+                                  >
+                                    <Check size={14} />
+                                    Mark Filled
+                                  </button>
+                                  <button
+                                    onClick={() => updateRequest(request.id, { status: 'closed' })}
+                                    className="flex items-center gap-1 text-sm bg-gray-700 text-gray-300 px-3 py-1 rounded hover:bg-gray-600 transition-colors"
+                                  >
+                                    <Lock size={14} />
+                                    Close
+                                  </button>
+                                </>
+                              ) : (
+                                <button
+                                  onClick={() => updateRequest(request.id, { status: 'open' })}
+                                  className="flex items-center gap-1 text-sm bg-blue-600/20 text-blue-400 px-3 py-1 rounded hover:bg-blue-600/30 transition-colors"
+                                >
+                                  <RotateCcw size={14} />
+                                  Reopen
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleDelete(request.id)}
+                                className="flex items-center gap-1 text-sm text-gray-400 px-3 py-1 rounded hover:text-red-400 transition-colors"
+                              >
+                                <Trash2 size={14} />
+                                Delete
+                              </button>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
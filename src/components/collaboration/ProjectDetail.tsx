@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { getProfilePath, sectionPaths } from '../../lib/routes';
+import { useQueryParam } from '../../hooks/useQueryParam';
+import { ArrowLeft, Star, History, MessageCircle, ArrowRight, ScrollText, KanbanSquare } from 'lucide-react';
+import FollowButton from '../FollowButton';
+import ReputationScore from '../ReputationScore';
+import ReportButton from '../moderation/ReportButton';
+import RatingHistogram from './RatingHistogram';
+import ProjectDevlog from './ProjectDevlog';
+import ProjectFeedbackList from './ProjectFeedbackList';
+import TaskBoard from './TaskBoard';
+import { getStageColor, projectStages } from './stages';
+import { Project, ProjectStageChange } from './types';
+
+const PROJECT_SELECT = '*, profiles(username, avatar_url, reputation), project_members(id, user_id, role_type, profiles(username, avatar_url))';
+
+const projectTabs = [
+  { id: 'devlog', label: 'Devlog', icon: ScrollText },
+  { id: 'tasks', label: 'Task Board', icon: KanbanSquare },
+];
+
+export default function ProjectDetail() {
+  const { user } = useAuth();
+  const { id: projectId } = useParams();
+  const [project, setProject] = useState<Project | null>(null);
+  const [stageChanges, setStageChanges] = useState<ProjectStageChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingStage, setSavingStage] = useState(false);
+  const [activeTab, setActiveTab] = useQueryParam('tab', 'devlog');
+
+  const loadStageChanges = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const { data, error } = await supabase
+        .from('project_stage_changes')
+        .select('*, profiles(username)')
+        .eq('project_id', projectId)
+        .order('changed_at', { ascending: true });
+
+      if (error) throw error;
+      setStageChanges(data || []);
+    } catch (error) {
+      console.error('Error loading stage history:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const loadProject = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('projects')
+          .select(PROJECT_SELECT)
+          .eq('id', projectId)
+          .maybeSingle();
+
+        if (error) throw error;
+        setProject(data);
+      } catch (error) {
+        console.error('Error loading project:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProject();
+    loadStageChanges();
+  }, [projectId, loadStageChanges]);
+
+  const handleStageChange = async (stage: string) => {
+    if (!project || stage === project.stage) return;
+
+    setSavingStage(true);
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ stage })
+        .eq('id', project.id);
+
+      if (error) throw error;
+      setProject({ ...project, stage });
+      await loadStageChanges();
+    } catch (error) {
+      console.error('Error changing stage:', error);
+    } finally {
+      setSavingStage(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  const isCreator = user?.id === project?.creator_id;
+  const isMember = isCreator || !!project?.project_members.some((m) => m.user_id === user?.id);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <Link
+        to={sectionPaths.collaboration}
+        className="inline-flex items-center gap-2 text-blue-400 hover:text-blue-300 mb-6 transition-colors"
+      >
+        <ArrowLeft size={20} />
+        All Projects
+      </Link>
+
+      {!project ? (
+        <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center text-gray-400">
+          This project was not found. It may have been deleted.
+        </div>
+      ) : (
+        <>
+          <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 mb-8">
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Link to={getProfilePath(project.profiles.username)} className="shrink-0">
+                  <img src={project.profiles.avatar_url} alt={project.profiles.username} className="w-10 h-10 rounded-full" />
+                </Link>
+                <Link
+                  to={getProfilePath(project.profiles.username)}
+                  className="font-medium hover:text-blue-400 transition-colors"
+                >
+                  {project.profiles.username}
+                </Link>
+                <ReputationScore points={project.profiles.reputation} />
+                <FollowButton userId={project.creator_id} compact />
+              </div>
+              <div className="flex items-center gap-3">
+                {isCreator ? (
+                  <select
+                    value={project.stage}
+                    onChange={(e) => handleStageChange(e.target.value)}
+                    disabled={savingStage}
+                    className="px-3 py-1 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-sm"
+                  >
+                    {projectStages.map((stage) => (
+                      <option key={stage} value={stage}>
+                        {stage}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className={`text-xs px-3 py-1 rounded font-medium ${getStageColor(project.stage)}`}>
+                    {project.stage}
+                  </span>
+                )}
+                <ReportButton contentType="project" contentId={project.id} authorId={project.creator_id} size={18} />
+              </div>
+            </div>
+
+            <h1 className="text-3xl font-bold mb-3">{project.title}</h1>
+            <p className="text-gray-300 whitespace-pre-wrap mb-6">{project.description}</p>
+
+            <div className="flex flex-wrap gap-8 pt-6 border-t border-gray-700">
+              <div className="w-64">
+                <div className="flex items-center gap-2 mb-3">
+                  <Star className="text-yellow-400 fill-yellow-400" size={20} />
+                  <span className="text-2xl font-bold">
+                    {project.rating_count === 0 ? '0' : (project.rating_sum / project.rating_count).toFixed(1)}
+                  </span>
+                  <span className="text-sm text-gray-400">
+                    {project.rating_count} {project.rating_count === 1 ? 'review' : 'reviews'}
+                  </span>
+                </div>
+                <RatingHistogram projectId={project.id} ratingCount={project.rating_count} />
+              </div>
+
+              {project.project_members.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-300 mb-3">Team</h3>
+                  <div className="space-y-2">
+                    {project.project_members.map((member) => (
+                      <Link
+                        key={member.id}
+                        to={getProfilePath(member.profiles.username)}
+                        className="flex items-center gap-2 hover:text-blue-400 transition-colors"
+                      >
+                        <img src={member.profiles.avatar_url} alt={member.profiles.username} className="w-6 h-6 rounded-full" />
+                        <span className="text-sm">{member.profiles.username}</span>
+                        <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">{member.role_type}</span>
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-6">
+            <div className="flex-1 min-w-0">
+              <div className="flex gap-2 mb-6">
+                {projectTabs.map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setActiveTab(id)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                      activeTab === id
+                        ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    <Icon size={16} />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {activeTab === 'tasks' ? (
+                <TaskBoard project={project} canEdit={isMember} />
+              ) : (
+                <ProjectDevlog projectId={project.id} creatorId={project.creator_id} canPost={isMember} />
+              )}
+            </div>
+
+            <aside className="w-80 space-y-6">
+              <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+                <div className="flex items-center gap-2 mb-4">
+                  <History className="text-blue-400" size={20} />
+                  <h3 className="text-lg font-semibold">Stage History</h3>
+                </div>
+                <ol className="space-y-3">
+                  {stageChanges.map((change) => (
+                    <li key={change.id} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        {change.from_stage && (
+                          <>
+                            <span className={`text-xs px-2 py-0.5 rounded ${getStageColor(change.from_stage)}`}>
+                              {change.from_stage}
+                            </span>
+                            <ArrowRight size={12} className="text-gray-500" />
+                          </>
+                        )}
+                        <span className={`text-xs px-2 py-0.5 rounded ${getStageColor(change.to_stage)}`}>
+                          {change.to_stage}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {change.from_stage ? 'Moved' : 'Started'} {new Date(change.changed_at).toLocaleDateString()}
+                        {change.profiles && ` by ${change.profiles.username}`}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+                <div className="flex items-center gap-2 mb-4">
+                  <MessageCircle className="text-blue-400" size={20} />
+                  <h3 className="text-lg font-semibold">Feedback</h3>
+                </div>
+                <ProjectFeedbackList projectId={project.id} ratingCount={project.rating_count} />
+              </div>
+            </aside>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
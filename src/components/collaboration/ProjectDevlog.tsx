@@ -0,0 +1,366 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { getProfilePath } from '../../lib/routes';
+import { uploadProjectImage, deleteProjectImage, isProjectImageUrl } from '../../lib/storage';
+import { Plus, X, ImagePlus, Pencil, Trash2, ScrollText } from 'lucide-react';
+import Markdown from '../Markdown';
+import { ProjectUpdate } from './types';
+
+const UPDATE_SELECT = '*, profiles(username, avatar_url)';
+const MAX_IMAGES = 6;
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+interface DevlogFormValues {
+  title: string;
+  body: string;
+  image_urls: string[];
+}
+
+interface DevlogFormProps {
+  projectId: string;
+  initialValues?: DevlogFormValues;
+  submitLabel: string;
+  onCancel: () => void;
+  onSubmit: (values: DevlogFormValues) => Promise<void>;
+}
+
+function DevlogForm({ projectId, initialValues, submitLabel, onCancel, onSubmit }: DevlogFormProps) {
+  const { user } = useAuth();
+  const [values, setValues] = useState<DevlogFormValues>(initialValues ?? { title: '', body: '', image_urls: [] });
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    if (values.image_urls.length + files.length > MAX_IMAGES) {
+      setError(`Add up to ${MAX_IMAGES} images per update.`);
+      return;
+    }
+    if (files.some((file) => !file.type.startsWith('image/') || file.size > MAX_IMAGE_SIZE)) {
+      setError('Images must be PNG, JPEG, WebP or GIF files of 5 MB or less.');
+      return;
+    }
+
+    setError('');
+    setUploading(true);
+    try {
+      const urls = await Promise.all(files.map((file) => uploadProjectImage(file, user.id, projectId)));
+      setValues((prev) => ({ ...prev, image_urls: [...prev.image_urls, ...urls] }));
+    } catch (err) {
+      console.error('Error uploading image:', err);
+      setError('Could not upload that image. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeImage = (url: string) => {
+    setValues((prev) => ({ ...prev, image_urls: prev.image_urls.filter((u) => u !== url) }));
+    // Images that were already published are cleaned up once the edit is saved.
+    if (!initialValues?.image_urls.includes(url)) {
+      deleteProjectImage(url).catch((err) => console.error('Error deleting image:', err));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setError('');
+    setSubmitting(true);
+    try {
+      await onSubmit({ ...values, title: values.title.trim(), body: values.body.trim() });
+    } catch (err) {
+      console.error('Error saving update:', err);
+      setError('Could not save this update. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <input
+        type="text"
+        value={values.title}
+        onChange={(e) => setValues({ ...values, title: e.target.value })}
+        className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+        placeholder="What's new?"
+        required
+      />
+      <div>
+        <textarea
+          value={values.body}
+          onChange={(e) => setValues({ ...values, body: e.target.value })}
+          className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-40 resize-y font-mono text-sm"
+          placeholder="Share your progress..."
+          required
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Markdown supported: # headings, **bold**, *italic*, `code`, lists, &gt; quotes and [links](https://...).
+        </p>
+      </div>
+
+      {values.image_urls.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {values.image_urls.map((url) => (
+            <div key={url} className="relative">
+              <img src={url} alt="" className="w-full h-24 object-cover rounded-lg" />
+              <button
+                type="button"
+                onClick={() => removeImage(url)}
+                className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white hover:bg-black/80 transition-colors"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        {values.image_urls.length < MAX_IMAGES ? (
+          <label className="flex items-center gap-2 text-sm text-gray-300 bg-gray-700 px-3 py-2 rounded-lg hover:bg-gray-600 transition-all cursor-pointer">
+            <ImagePlus size={16} />
+            {uploading ? 'Uploading...' : 'Add Images'}
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif"
+              multiple
+              onChange={handleImageChange}
+              disabled={uploading}
+              className="hidden"
+            />
+          </label>
+        ) : <span />}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || uploading}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+interface ProjectDevlogProps {
+  projectId: string;
+  creatorId: string;
+  canPost: boolean;
+}
+
+export default function ProjectDevlog({ projectId, creatorId, canPost }: ProjectDevlogProps) {
+  const { user } = useAuth();
+  const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadUpdates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('project_updates')
+          .select(UPDATE_SELECT)
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setUpdates(data || []);
+      } catch (error) {
+        console.error('Error loading devlog:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUpdates();
+  }, [projectId]);
+
+  const handleCreate = async (values: DevlogFormValues) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('project_updates')
+      .insert([{ ...values, project_id: projectId, author_id: user.id }])
+      .select(UPDATE_SELECT)
+      .single();
+
+    if (error) throw error;
+    setUpdates((prev) => [data, ...prev]);
+    setShowForm(false);
+  };
+
+  const handleEdit = async (update: ProjectUpdate, values: DevlogFormValues) => {
+    const { data, error } = await supabase
+      .from('project_updates')
+      .update(values)
+      .eq('id', update.id)
+      .select(UPDATE_SELECT)
+      .single();
+
+    if (error) throw error;
+    setUpdates((prev) => prev.map((u) => (u.id === update.id ? data : u)));
+    setEditingId(null);
+
+    update.image_urls
+      .filter((url) => !values.image_urls.includes(url))
+      .forEach((url) => deleteProjectImage(url).catch((err) => console.error('Error deleting image:', err)));
+  };
+
+  const handleDelete = async (update: ProjectUpdate) => {
+    if (!confirm('Delete this update?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('project_updates')
+        .delete()
+        .eq('id', update.id);
+
+      if (error) throw error;
+      setUpdates((prev) => prev.filter((u) => u.id !== update.id));
+
+      // Only the uploader can remove files from their folder.
+      if (update.author_id === user?.id) {
+        update.image_urls.forEach((url) => deleteProjectImage(url).catch((err) => console.error('Error deleting image:', err)));
+      }
+    } catch (error) {
+      console.error('Error deleting update:', error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ScrollText className="text-blue-400" size={20} />
+          <h2 className="text-xl font-semibold">Devlog</h2>
+        </div>
+        {canPost && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-4 py-2 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all"
+          >
+            <Plus size={16} />
+            Post Update
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="bg-gray-800 rounded-xl p-6 mb-6 border border-gray-700">
+          <DevlogForm
+            projectId={projectId}
+            submitLabel="Publish Update"
+            onCancel={() => setShowForm(false)}
+            onSubmit={handleCreate}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-gray-400">Loading...</div>
+      ) : updates.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 text-sm text-gray-400">
+          No updates yet.{canPost && ' Post the first one to let people follow your progress.'}
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-700 ml-3 space-y-6">
+          {updates.map((update) => (
+            <li key={update.id} className="ml-6">
+              <span className="absolute -left-1.5 mt-6 w-3 h-3 rounded-full bg-blue-500 ring-4 ring-gray-900" />
+              <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+                {editingId === update.id ? (
+                  <DevlogForm
+                    projectId={projectId}
+                    initialValues={{ title: update.title, body: update.body, image_urls: update.image_urls }}
+                    submitLabel="Save Changes"
+                    onCancel={() => setEditingId(null)}
+                    onSubmit={(values) => handleEdit(update, values)}
+                  />
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex items-center gap-2">
+                        <Link to={getProfilePath(update.profiles.username)} className="shrink-0">
+                          <img src={update.profiles.avatar_url} alt={update.profiles.username} className="w-8 h-8 rounded-full" />
+                        </Link>
+                        <div>
+                          <Link
+                            to={getProfilePath(update.profiles.username)}
+                            className="text-sm font-medium hover:text-blue-400 transition-colors"
+                          >
+                            {update.profiles.username}
+                          </Link>
+                          <p className="text-xs text-gray-500">
+                            {new Date(update.created_at).toLocaleDateString()}
+                            {update.updated_at > update.created_at && ' · edited'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {user?.id === update.author_id && (
+                          <button
+                            onClick={() => setEditingId(update.id)}
+                            className="p-1 text-gray-500 hover:text-white transition-colors"
+                            title="Edit update"
+                          >
+                            <Pencil size={14} />
+                          </button>
+                        )}
+                        {(user?.id === update.author_id || user?.id === creatorId) && (
+                          <button
+                            onClick={() => handleDelete(update)}
+                            className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                            title="Delete update"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    <h3 className="text-lg font-semibold mb-3">{update.title}</h3>
+                    <Markdown source={update.body} />
+
+                    {update.image_urls.some(isProjectImageUrl) && (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-4">
+                        {update.image_urls.filter(isProjectImageUrl).map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <img src={url} alt="" className="w-full h-32 object-cover rounded-lg hover:opacity-90 transition-opacity" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { getProfilePath } from '../../lib/routes';
+import { Star } from 'lucide-react';
+import ReputationScore from '../ReputationScore';
+import ReportButton from '../moderation/ReportButton';
+import { ProjectReview } from './types';
+
+interface FeedbackEntry extends ProjectReview {
+  profiles: {
+    username: string;
+    avatar_url: string;
+    reputation?: number;
+  };
+}
+
+interface ProjectFeedbackListProps {
+  projectId: string;
+  // Reloads the list whenever the project's aggregate changes.
+  ratingCount: number;
+}
+
+export default function ProjectFeedbackList({ projectId, ratingCount }: ProjectFeedbackListProps) {
+  const [feedback, setFeedback] = useState<FeedbackEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadFeedback = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('project_feedback')
+          .select('*, profiles(username, avatar_url, reputation)')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setFeedback(data || []);
+      } catch (error) {
+        console.error('Error loading feedback:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFeedback();
+  }, [projectId, ratingCount]);
+
+  if (loading) {
+    return <div className="text-sm text-gray-400">Loading feedback...</div>;
+  }
+
+  if (feedback.length === 0) {
+    return <p className="text-sm text-gray-400">No feedback yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {feedback.map((entry) => (
+        <div key={entry.id} className="p-3 bg-gray-900/50 rounded-lg">
+          <div className="flex items-start justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Link to={getProfilePath(entry.profiles.username)} className="shrink-0">
+                <img src={entry.profiles.avatar_url} alt={entry.profiles.username} className="w-6 h-6 rounded-full" />
+              </Link>
+              <Link
+                to={getProfilePath(entry.profiles.username)}
+                className="text-sm font-medium hover:text-blue-400 transition-colors"
+              >
+                {entry.profiles.username}
+              </Link>
+              <ReputationScore points={entry.profiles.reputation} />
+            </div>
+            <ReportButton contentType="project_feedback" contentId={entry.id} authorId={entry.user_id} />
+          </div>
+          <div className="flex items-center gap-2 mb-2">
+            <div className="flex">
+              {[1, 2, 3, 4, 5].map((value) => (
+                <Star
+                  key={value}
+                  size={12}
+                  className={value <= entry.rating ? 'text-yellow-400 fill-yellow-400' : 'text-gray-600'}
+                />
+              ))}
+            </div>
+            <span className="text-xs text-gray-500">
+              {new Date(entry.created_at).toLocaleDateString()}
+              {entry.updated_at > entry.created_at && ' · edited'}
+            </span>
+          </div>
+          <p className="text-sm text-gray-300 whitespace-pre-wrap">{entry.content}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
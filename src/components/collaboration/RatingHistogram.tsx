@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Star } from 'lucide-react';
+
+interface RatingHistogramProps {
+  projectId: string;
+  // Reloads the distribution whenever the project's aggregate changes.
+  ratingCount: number;
+}
+
+interface RatingBucket {
+  rating: number;
+  review_count: number;
+}
+
+export default function RatingHistogram({ projectId, ratingCount }: RatingHistogramProps) {
+  const [buckets, setBuckets] = useState<RatingBucket[]>([]);
+
+  useEffect(() => {
+    const loadDistribution = async () => {
+      try {
+        const { data, error } = await supabase.rpc('project_rating_distribution', {
+          p_project_id: projectId,
+        });
+
+        if (error) throw error;
+        setBuckets(data || []);
+      } catch (error) {
+        console.error('Error loading rating distribution:', error);
+      }
+    };
+
+    loadDistribution();
+  }, [projectId, ratingCount]);
+
+  const total = buckets.reduce((sum, bucket) => sum + bucket.review_count, 0);
+
+  return (
+    <div className="space-y-1">
+      {buckets.map((bucket) => (
+        <div key={bucket.rating} className="flex items-center gap-2 text-xs">
+          <span className="flex items-center gap-0.5 w-8 text-gray-400">
+            {bucket.rating}
+            <Star size={10} className="text-yellow-400 fill-yellow-400" />
+          </span>
+          <div className="flex-1 h-2 bg-gray-900 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-yellow-400 rounded-full"
+              style={{ width: total ? `${(bucket.review_count / total) * 100}%` : 0 }}
+            />
+          </div>
+          <span className="w-6 text-right text-gray-500">{bucket.review_count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { normalizeWebLink } from '../../lib/links';
+import { Send, Plus, X } from 'lucide-react';
+import { CollaboratorRequest } from './types';
+
+interface RoleApplicationModalProps {
+  request: CollaboratorRequest;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+const MAX_PORTFOLIO_LINKS = 5;
+
+export default function RoleApplicationModal({ request, onClose, onApplied }: RoleApplicationModalProps) {
+  const { user } = useAuth();
+  const [message, setMessage] = useState('');
+  const [links, setLinks] = useState(['']);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const updateLink = (index: number, value: string) => {
+    setLinks((prev) => prev.map((link, i) => (i === index ? value : link)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const filled = links.filter((link) => link.trim());
+    const portfolioLinks = filled.map(normalizeWebLink);
+    if (portfolioLinks.some((link) => link === null)) {
+      setError('Portfolio links must be valid web addresses.');
+      return;
+    }
+
+    setError('');
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('applications')
+        .insert([
+          {
+            request_id: request.id,
+            applicant_id: user.id,
+            message: message.trim(),
+            portfolio_links: portfolioLinks,
+          },
+        ]);
+
+      if (error) throw error;
+      onApplied();
+    } catch (err) {
+      console.error('Error applying for role:', err);
+      setError('Could not send your application. You may have already applied for this role.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700">
+        <div className="flex items-center gap-2 mb-2">
+          <Send className="text-blue-400" size={20} />
+          <h3 className="text-xl font-semibold">Apply as {request.role_type}</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Pitch yourself to the team behind <span className="text-white">{request.projects.title}</span>.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Your pitch</label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-28 resize-none"
+              placeholder="Why are you a good fit for this role?"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Portfolio links (optional)</label>
+            <div className="space-y-2">
+              {links.map((link, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={link}
+                    onChange={(e) => updateLink(index, e.target.value)}
+                    className="flex-1 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                    placeholder="https://..."
+                  />
+                  {links.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setLinks((prev) => prev.filter((_, i) => i !== index))}
+                      className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {links.length < MAX_PORTFOLIO_LINKS && (
+              <button
+                type="button"
+                onClick={() => setLinks((prev) => [...prev, ''])}
+                className="flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300 mt-2 transition-colors"
+              >
+                <Plus size={14} />
+                Add link
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send Application
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
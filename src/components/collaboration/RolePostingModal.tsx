@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { UserPlus } from 'lucide-react';
+import { Project } from './types';
+
+interface RolePostingModalProps {
+  project: Project;
+  roles: string[];
+  onClose: () => void;
+  onPost: (roleType: string, description: string) => Promise<void>;
+}
+
+export default function RolePostingModal({ project, roles, onClose, onPost }: RolePostingModalProps) {
+  const [roleType, setRoleType] = useState(roles[0]);
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setError('');
+    setSubmitting(true);
+    try {
+      await onPost(roleType, description.trim());
+    } catch (err) {
+      console.error('Error posting role:', err);
+      setError('Could not post this role. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700">
+        <div className="flex items-center gap-2 mb-2">
+          <UserPlus className="text-blue-400" size={20} />
+          <h3 className="text-xl font-semibold">Post a Role</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Find a collaborator for <span className="text-white">{project.title}</span>.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Role</label>
+            <select
+              value={roleType}
+              onChange={(e) => setRoleType(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+              required
+            >
+              {roles.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">What you're looking for</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-28 resize-none"
+              placeholder="Describe the work, the commitment and the skills you need..."
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Post Role
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
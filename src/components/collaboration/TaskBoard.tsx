@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { Plus, KanbanSquare } from 'lucide-react';
+import TaskEditorModal, { TaskFormValues } from './TaskEditorModal';
+import { getTaskLabelColor, sortTasks, taskColumns } from './tasks';
+import { Project, ProjectTask, TaskStatus, TeamMember } from './types';
+
+interface DropTarget {
+  status: TaskStatus;
+  index: number;
+}
+
+interface TaskBoardProps {
+  project: Project;
+  canEdit: boolean;
+}
+
+export default function TaskBoard({ project, canEdit }: TaskBoardProps) {
+  const { user } = useAuth();
+  const [tasks, setTasks] = useState<ProjectTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editor, setEditor] = useState<{ status: TaskStatus; task?: ProjectTask } | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const team = useMemo<TeamMember[]>(() => [
+    { user_id: project.creator_id, username: project.profiles.username, avatar_url: project.profiles.avatar_url, role_type: null },
+    ...project.project_members.map((member) => ({
+      user_id: member.user_id,
+      username: member.profiles.username,
+      avatar_url: member.profiles.avatar_url,
+      role_type: member.role_type,
+    })),
+  ], [project]);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .select('*')
+        .eq('project_id', project.id)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  useRealtimeTable<ProjectTask>('project_tasks', {
+    onInsert: (task) => setTasks((prev) => (prev.some((t) => t.id === task.id) ? prev : [...prev, task])),
+    onUpdate: (task) => setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t))),
+    onDelete: (task) => setTasks((prev) => prev.filter((t) => t.id !== task.id)),
+  }, `project_id=eq.${project.id}`);
+
+  const columnTasks = (status: TaskStatus) => sortTasks(tasks.filter((t) => t.status === status));
+
+  const moveTask = async (task: ProjectTask, status: TaskStatus, position: number) => {
+    // Mirror move_project_task locally so the card lands before the server confirms it.
+    setTasks((prev) => {
+      const column = sortTasks(prev.filter((t) => t.status === status && t.id !== task.id));
+      column.splice(position, 0, { ...task, status });
+      const moved = new Map(column.map((t, i) => [t.id, { ...t, position: i }]));
+      return prev.map((t) => moved.get(t.id) ?? t);
+    });
+
+    try {
+      const { error } = await supabase.rpc('move_project_task', {
+        p_task_id: task.id,
+        p_status: status,
+        p_position: position,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error moving task:', error);
+      loadTasks();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    const task = tasks.find((t) => t.id === draggingId);
+    const target = dropTarget;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task || !target || target.status !== status) return;
+
+    const currentIndex = columnTasks(task.status).findIndex((t) => t.id === task.id);
+    if (task.status === status && currentIndex === target.index) return;
+    moveTask(task, status, target.index);
+  };
+
+  // Indexes ignore the dragged card, which is how move_project_task numbers the column.
+  // Hovering the dragged card itself targets the slot it already occupies.
+  const handleCardDragOver = (e: React.DragEvent<HTMLElement>, status: TaskStatus, index: number, isDragged: boolean) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const nextIndex = isDragged || e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+    if (dropTarget?.status !== status || dropTarget.index !== nextIndex) {
+      setDropTarget({ status, index: nextIndex });
+    }
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent, status: TaskStatus, count: number) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: count });
+    }
+  };
+
+  const handleSave = async (values: TaskFormValues) => {
+    if (!user || !editor) return;
+
+    if (editor.task) {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .update(values)
+        .eq('id', editor.task.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setTasks((prev) => prev.map((t) => (t.id === data.id ? data : t)));
+    } else {
+      const column = columnTasks(editor.status);
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .insert([{
+          ...values,
+          project_id: project.id,
+          created_by: user.id,
+          status: editor.status,
+          position: column.length > 0 ? column[column.length - 1].position + 1 : 0,
+        }])
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setTasks((prev) => (prev.some((t) => t.id === data.id) ? prev : [...prev, data]));
+    }
+    setEditor(null);
+  };
+
+  const handleDelete = async (task: ProjectTask) => {
+    const { error } = await supabase
+      .from('project_tasks')
+      .delete()
+      .eq('id', task.id);
+
+    if (error) throw error;
+    setTasks((prev) => prev.filter((t) => t.id !== task.id));
+    setEditor(null);
+  };
+
+  const editingTask = editor?.task;
+  const dropIndicator = <div className="h-1 rounded-full bg-blue-500" />;
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        <KanbanSquare className="text-blue-400" size={20} />
+        <h2 className="text-xl font-semibold">Task Board</h2>
+        {canEdit && <span className="text-xs text-gray-500 ml-2">Drag cards to reorder them or change their status.</span>}
+      </div>
+
+      {loading ? (
+        <div className="text-gray-400">Loading...</div>
+      ) : (
+        <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+          {taskColumns.map(({ status, title }) => {
+            const column = columnTasks(status);
+            const others = column.filter((t) => t.id !== draggingId);
+            const showIndicator = (index: number) => dropTarget?.status === status && dropTarget.index === index;
+
+            return (
+              <div
+                key={status}
+                onDragOver={(e) => handleColumnDragOver(e, status, others.length)}
+                onDrop={(e) => handleDrop(e, status)}
+                className={`bg-gray-800 rounded-xl p-3 border min-h-[12rem] flex flex-col ${
+                  dropTarget?.status === status ? 'border-blue-500/50' : 'border-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-3 px-1">
+                  <h3 className="text-sm font-semibold text-gray-300">
+                    {title} <span className="text-gray-500 font-normal">{column.length}</span>
+                  </h3>
+                  {canEdit && (
+                    <button
+                      onClick={() => setEditor({ status })}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                      title={`Add a task to ${title}`}
+                    >
+                      <Plus size={16} />
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-2 flex-1">
+                  {column.map((task, columnIndex) => {
+                    const index = others.indexOf(task);
+                    const assignee = team.find((member) => member.user_id === task.assignee_id);
+
+                    return (
+                      <div key={task.id}>
+                        {index >= 0 && showIndicator(index) && <div className="mb-2">{dropIndicator}</div>}
+                        <div
+                          draggable={canEdit}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            e.dataTransfer.setData('text/plain', task.id);
+                            setDraggingId(task.id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggingId(null);
+                            setDropTarget(null);
+                          }}
+                          onDragOver={(e) => handleCardDragOver(e, status, index >= 0 ? index : columnIndex, index < 0)}
+                          onClick={() => canEdit && setEditor({ status, task })}
+                          className={`p-3 bg-gray-900/50 rounded-lg border border-gray-700 transition-colors ${
+                            canEdit ? 'cursor-grab hover:border-gray-500' : ''
+                          } ${task.id === draggingId ? 'opacity-50' : ''}`}
+                        >
+                          <p className="text-sm font-medium mb-1">{task.title}</p>
+                          {task.description && (
+                            <p className="text-xs text-gray-400 line-clamp-2 mb-2">{task.description}</p>
+                          )}
+                          <div className="flex items-center justify-between">
+                            {task.label ? (
+                              <span className={`text-xs px-2 py-0.5 rounded ${getTaskLabelColor(task.label)}`}>
+                                {task.label}
+                              </span>
+                            ) : <span />}
+                            {assignee && (
+                              <img
+                                src={assignee.avatar_url}
+                                alt={assignee.username}
+                                title={assignee.username}
+                                className="w-6 h-6 rounded-full"
+                              />
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {showIndicator(others.length) && dropIndicator}
+                  {column.length === 0 && !showIndicator(0) && (
+                    <p className="text-xs text-gray-500 text-center py-4">No tasks</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editor && (
+        <TaskEditorModal
+          task={editingTask}
+          team={team}
+          onClose={() => setEditor(null)}
+          onSave={handleSave}
+          onDelete={editingTask ? () => handleDelete(editingTask) : undefined}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { ClipboardList, Trash2 } from 'lucide-react';
+import { roleTypeLabels, taskLabels } from './tasks';
+import { ProjectTask, TaskLabel, TeamMember } from './types';
+
+export interface TaskFormValues {
+  title: string;
+  description: string | null;
+  label: TaskLabel | null;
+  assignee_id: string | null;
+}
+
+interface TaskEditorModalProps {
+  task?: ProjectTask;
+  team: TeamMember[];
+  onClose: () => void;
+  onSave: (values: TaskFormValues) => Promise<void>;
+  onDelete?: () => Promise<void>;
+}
+
+export default function TaskEditorModal({ task, team, onClose, onSave, onDelete }: TaskEditorModalProps) {
+  const [title, setTitle] = useState(task?.title ?? '');
+  const [description, setDescription] = useState(task?.description ?? '');
+  const [label, setLabel] = useState<TaskLabel | ''>(task?.label ?? '');
+  const [assigneeId, setAssigneeId] = useState(task?.assignee_id ?? '');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleAssigneeChange = (userId: string) => {
+    setAssigneeId(userId);
+    const roleType = team.find((member) => member.user_id === userId)?.role_type;
+    if (!label && roleType && roleTypeLabels[roleType]) {
+      setLabel(roleTypeLabels[roleType]);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setError('');
+    setSubmitting(true);
+    try {
+      await onSave({
+        title: title.trim(),
+        description: description.trim() || null,
+        label: label || null,
+        assignee_id: assigneeId || null,
+      });
+    } catch (err) {
+      console.error('Error saving task:', err);
+      setError('Could not save this task. Please try again.');
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !confirm('Delete this task?')) return;
+
+    setError('');
+    setSubmitting(true);
+    try {
+      await onDelete();
+    } catch (err) {
+      console.error('Error deleting task:', err);
+      setError('Could not delete this task. Please try again.');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700">
+        <div className="flex items-center gap-2 mb-4">
+          <ClipboardList className="text-blue-400" size={20} />
+          <h3 className="text-xl font-semibold">{task ? 'Edit Task' : 'New Task'}</h3>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+              placeholder="What needs doing?"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Details</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-24 resize-none"
+              placeholder="Optional notes, links or acceptance criteria..."
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Assignee</label>
+              <select
+                value={assigneeId}
+                onChange={(e) => handleAssigneeChange(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+              >
+                <option value="">Unassigned</option>
+                {team.map((member) => (
+                  <option key={member.user_id} value={member.user_id}>
+                    {member.username}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Label</label>
+              <select
+                value={label}
+                onChange={(e) => setLabel(e.target.value as TaskLabel | '')}
+                className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+              >
+                <option value="">None</option>
+                {taskLabels.map((taskLabel) => (
+                  <option key={taskLabel} value={taskLabel}>
+                    {taskLabel}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {onDelete && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={submitting}
+                className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                title="Delete task"
+              >
+                <Trash2 size={18} />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {task ? 'Save Task' : 'Add Task'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+export const projectStages = ['Idea', 'Prototype', 'Beta', 'Released'];
+
+export const getStageColor = (stage: string) => {
+  switch (stage) {
+    case 'Idea': return 'bg-gray-600/20 text-gray-400';
+    case 'Prototype': return 'bg-blue-600/20 text-blue-400';
+    case 'Beta': return 'bg-purple-600/20 text-purple-400';
+    case 'Released': return 'bg-green-600/20 text-green-400';
+    default: return 'bg-gray-600/20 text-gray-400';
+  }
+};
@@ -0,0 +1,30 @@
+import { ProjectTask, TaskLabel, TaskStatus } from './types';
+
+export const taskColumns: { status: TaskStatus; title: string }[] = [
+  { status: 'backlog', title: 'Backlog' },
+  { status: 'in_progress', title: 'In Progress' },
+  { status: 'review', title: 'Review' },
+  { status: 'done', title: 'Done' },
+];
+
+export const taskLabels: TaskLabel[] = ['Art', 'Sound', 'Code', 'Writing'];
+
+// Suggests a label from the role a teammate joined the project with.
+export const roleTypeLabels: Record<string, TaskLabel> = {
+  Artist: 'Art',
+  'Sound Designer': 'Sound',
+  Coder: 'Code',
+  Writer: 'Writing',
+};
+
+export const getTaskLabelColor = (label: TaskLabel) => {
+  switch (label) {
+    case 'Art': return 'bg-pink-600/20 text-pink-400';
+    case 'Sound': return 'bg-yellow-600/20 text-yellow-400';
+    case 'Code': return 'bg-blue-600/20 text-blue-400';
+    case 'Writing': return 'bg-green-600/20 text-green-400';
+  }
+};
+
+export const sortTasks = (tasks: ProjectTask[]) =>
+  [...tasks].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
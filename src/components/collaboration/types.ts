@@ -0,0 +1,114 @@
+export interface ProjectMember {
+  id: string;
+  user_id: string;
+  role_type: string;
+  profiles: {
+    username: string;
+    avatar_url: string;
+  };
+}
+
+export interface Project {
+  id: string;
+  title: string;
+  description: string;
+  stage: string;
+  rating_sum: number;
+  rating_count: number;
+  created_at: string;
+  creator_id: string;
+  profiles: {
+    username: string;
+    avatar_url: string;
+    reputation?: number;
+  };
+  project_members: ProjectMember[];
+}
+
+export type CollaboratorRequestStatus = 'open' | 'filled' | 'closed';
+
+export interface CollaboratorRequest {
+  id: string;
+  project_id: string;
+  role_type: string;
+  description: string;
+  status: CollaboratorRequestStatus;
+  created_at: string;
+  projects: {
+    title: string;
+    creator_id: string;
+  };
+}
+
+export type ApplicationStatus = 'pending' | 'accepted' | 'declined';
+
+export interface RoleApplication {
+  id: string;
+  request_id: string;
+  applicant_id: string;
+  message: string;
+  portfolio_links: string[];
+  status: ApplicationStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+export interface ProjectReview {
+  id: string;
+  project_id: string;
+  user_id: string;
+  content: string;
+  rating: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectUpdate {
+  id: string;
+  project_id: string;
+  author_id: string;
+  title: string;
+  body: string;
+  image_urls: string[];
+  created_at: string;
+  updated_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string;
+  };
+}
+
+export interface ProjectStageChange {
+  id: string;
+  from_stage: string | null;
+  to_stage: string;
+  changed_at: string;
+  profiles: {
+    username: string;
+  } | null;
+}
+
+export type TaskStatus = 'backlog' | 'in_progress' | 'review' | 'done';
+
+export type TaskLabel = 'Art' | 'Sound' | 'Code' | 'Writing';
+
+export interface ProjectTask {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  position: number;
+  label: TaskLabel | null;
+  assignee_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TeamMember {
+  user_id: string;
+  username: string;
+  avatar_url: string;
+  role_type: string | null;
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { FileText } from 'lucide-react';
+import { GameIdea } from './types';
+
+interface DemoRequestModalProps {
+  idea: GameIdea;
+  onClose: () => void;
+  onRequested: () => void;
+}
+
+export default function DemoRequestModal({ idea, onClose, onRequested }: DemoRequestModalProps) {
+  const { user } = useAuth();
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setError('');
+    setSubmitting(true);
+    try {
+      // Only one request per idea is kept, so a rejected one makes way for the new request.
+      const { error: removeError } = await supabase
+        .from('demo_requests')
+        .delete()
+        .eq('idea_id', idea.id)
+        .eq('requester_id', user.id)
+        .eq('status', 'rejected');
+
+      if (removeError) throw removeError;
+
+      const { error } = await supabase
+        .from('demo_requests')
+        .insert([
+          {
+            idea_id: idea.id,
+            requester_id: user.id,
+            message: message.trim() || null,
+          },
+        ]);
+
+      if (error) throw error;
+      onRequested();
+    } catch (err) {
+      console.error('Error requesting demo:', err);
+      setError('Could not send your request. You may have already requested this demo.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700">
+        <div className="flex items-center gap-2 mb-2">
+          <FileText className="text-blue-400" size={20} />
+          <h3 className="text-xl font-semibold">Request Demo</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Ask <span className="text-white">{idea.profiles.username}</span> for access to the full demo of{' '}
+          <span className="text-white">{idea.title}</span>.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Message (optional)</label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-28 resize-none"
+              placeholder="Tell the creator why you're interested..."
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send Request
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
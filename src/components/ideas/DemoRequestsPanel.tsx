@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import IdeaAttachmentLink from './IdeaAttachmentLink';
+import { X, Check, Ban, Inbox, Send } from 'lucide-react';
+import { DemoRequest, DemoRequestStatus } from './types';
+
+interface ReceivedRequest extends DemoRequest {
+  game_ideas: {
+    title: string;
+  };
+  profiles: {
+    username: string;
+    avatar_url: string;
+  };
+}
+
+interface SentRequest extends DemoRequest {
+  game_ideas: {
+    title: string;
+  };
+}
+
+interface DemoRequestsPanelProps {
+  onClose: () => void;
+  onWithdrawn: (ideaId: string) => void;
+}
+
+export default function DemoRequestsPanel({ onClose, onWithdrawn }: DemoRequestsPanelProps) {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<'received' | 'sent'>('received');
+  const [received, setReceived] = useState<ReceivedRequest[]>([]);
+  const [sent, setSent] = useState<SentRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | DemoRequestStatus>('pending');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadRequests = async () => {
+      try {
+        const [receivedResult, sentResult] = await Promise.all([
+          supabase
+            .from('demo_requests')
+            .select('*, game_ideas!inner(title, creator_id), profiles(username, avatar_url)')
+            .eq('game_ideas.creator_id', user.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('demo_requests')
+            .select('*, game_ideas(title)')
+            .eq('requester_id', user.id)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (receivedResult.error) throw receivedResult.error;
+        if (sentResult.error) throw sentResult.error;
+        setReceived(receivedResult.data || []);
+        setSent(sentResult.data || []);
+      } catch (error) {
+        console.error('Error loading demo requests:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRequests();
+  }, [user]);
+
+  const handleRespond = async (requestId: string, status: 'approved' | 'rejected') => {
+    try {
+      const { data, error } = await supabase
+        .from('demo_requests')
+        .update({ status })
+        .eq('id', requestId)
+        .select('status, responded_at')
+        .single();
+
+      if (error) throw error;
+      setReceived(received.map((r) => (r.id === requestId ? { ...r, ...data } : r)));
+    } catch (error) {
+      console.error('Error responding to demo request:', error);
+    }
+  };
+
+  const handleWithdraw = async (request: SentRequest) => {
+    if (!confirm('Withdraw this demo request?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('demo_requests')
+        .delete()
+        .eq('id', request.id);
+
+      if (error) throw error;
+      setSent(sent.filter((r) => r.id !== request.id));
+      onWithdrawn(request.idea_id);
+    } catch (error) {
+      console.error('Error withdrawing demo request:', error);
+    }
+  };
+
+  const getStatusColor = (status: DemoRequestStatus) => {
+    switch (status) {
+      case 'approved':
+        return 'bg-green-600/20 text-green-400';
+      case 'rejected':
+        return 'bg-red-600/20 text-red-400';
+      default:
+        return 'bg-yellow-600/20 text-yellow-400';
+    }
+  };
+
+  const filteredReceived = statusFilter === 'all'
+    ? received
+    : received.filter((r) => r.status === statusFilter);
+
+  const pendingCount = received.filter((r) => r.status === 'pending').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] flex flex-col border border-gray-700">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-xl font-semibold">Demo Requests</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4">
+          <button
+            onClick={() => setActiveTab('received')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${
+              activeTab === 'received' ? 'bg-blue-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <Inbox size={16} />
+            Received
+            {pendingCount > 0 && (
+              <span className="text-xs bg-yellow-500 text-gray-900 px-1.5 rounded-full font-semibold">
+                {pendingCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setActiveTab('sent')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${
+              activeTab === 'sent' ? 'bg-blue-600 text-white' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <Send size={16} />
+            My Requests
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="text-gray-400">Loading...</div>
+          ) : activeTab === 'received' ? (
+            <>
+              <div className="flex gap-2 mb-4">
+                {(['pending', 'approved', 'rejected', 'all'] as const).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1 rounded-full text-sm capitalize transition-all ${
+                      statusFilter === status
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {status}
+                  </button>
+                ))}
+              </div>
+
+              {filteredReceived.length === 0 ? (
+                <p className="text-sm text-gray-400">No requests here.</p>
+              ) : (
+                <div className="space-y-3">
+                  {filteredReceived.map((request) => (
+                    <div key={request.id} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                          <img
+                            src={request.profiles.avatar_url}
+                            alt={request.profiles.username}
+                            className="w-8 h-8 rounded-full"
+                          />
+                          <div>
+                            <p className="text-sm">
+                              <span className="font-medium">{request.profiles.username}</span>
+                              <span className="text-gray-400"> wants to try </span>
+                              <span className="font-medium">{request.game_ideas.title}</span>
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {new Date(request.created_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        <span className={`text-xs px-2 py-1 rounded capitalize ${getStatusColor(request.status)}`}>
+                          {request.status}
+                        </span>
+                      </div>
+
+                      {request.message && (
+                        <p className="text-sm text-gray-300 mb-3 whitespace-pre-wrap">{request.message}</p>
+                      )}
+
+                      {request.status === 'pending' && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleRespond(request.id, 'approved')}
+                            className="flex items-center gap-1 text-sm bg-green-600/20 text-green-400 px-3 py-1 rounded hover:bg-green-600/30 transition-colors"
+                          >
+                            <Check size={14} />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleRespond(request.id, 'rejected')}
+                            className="flex items-center gap-1 text-sm bg-red-600/20 text-red-400 px-3 py-1 rounded hover:bg-red-600/30 transition-colors"
+                          >
+                            <Ban size={14} />
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                      {request.status === 'approved' && (
+                        <button
+                          onClick={() => handleRespond(request.id, 'rejected')}
+                          className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                        >
+                          Revoke access
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : sent.length === 0 ? (
+            <p className="text-sm text-gray-400">You haven't requested any demos yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {sent.map((request) => (
+                <div key={request.id} className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <p className="text-sm font-medium">{request.game_ideas.title}</p>
+                      <p className="text-xs text-gray-500">
+                        Requested {new Date(request.created_at).toLocaleDateString()}
+                        {request.responded_at && ` · Answered ${new Date(request.responded_at).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded capitalize ${getStatusColor(request.status)}`}>
+                      {request.status}
+                    </span>
+                  </div>
+
+                  {request.status === 'approved' && (
+                    <IdeaAttachmentLink
+                      ideaId={request.idea_id}
+                      missingMessage="The creator has not attached a demo file yet."
+                      className="flex items-center gap-1 text-sm bg-blue-600/20 text-blue-400 px-3 py-1 rounded hover:bg-blue-600/30 transition-colors"
+                    >
+                      Open Demo
+                    </IdeaAttachmentLink>
+                  )}
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => handleWithdraw(request)}
+                      className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                    >
+                      Withdraw request
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { getIdeaAttachmentUrl } from '../../lib/ideaAttachments';
+import { isWebUrl } from '../../lib/links';
+
+// Signed URLs expire after a minute, so a fetched link is only offered for a little less.
+const LINK_LIFETIME_MS = 50_000;
+
+interface IdeaAttachmentLinkProps {
+  ideaId: string;
+  className: string;
+  missingMessage: string;
+  children: ReactNode;
+}
+
+/**
+ * Looks up an idea's attachment on the first click, then offers it as a plain link so the
+ * browser opens it from a real click in a separate, unrelated tab.
+ */
+export default function IdeaAttachmentLink({ ideaId, className, missingMessage, children }: IdeaAttachmentLinkProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!url) return;
+    const timer = setTimeout(() => setUrl(null), LINK_LIFETIME_MS);
+    return () => clearTimeout(timer);
+  }, [url]);
+
+  const handleFetch = async () => {
+    setLoading(true);
+    try {
+      const attachmentUrl = await getIdeaAttachmentUrl(ideaId);
+      if (!attachmentUrl) {
+        alert(missingMessage);
+      } else if (!isWebUrl(attachmentUrl)) {
+        alert('This attachment is not a web link and cannot be opened.');
+      } else {
+        setUrl(attachmentUrl);
+      }
+    } catch (error) {
+      console.error('Error loading attachment link:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (url) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" className={className}>
+        <ExternalLink size={14} />
+        Open in new tab
+      </a>
+    );
+  }
+
+  return (
+    <button onClick={handleFetch} disabled={loading} className={className}>
+      <ExternalLink size={14} />
+      {loading ? 'Preparing...' : children}
+    </button>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { uploadIdeaFile } from '../../lib/storage';
+import { normalizeWebLink } from '../../lib/links';
+import {
+  IdeaAttachment,
+  getIdeaAttachment,
+  saveIdeaAttachment,
+  removeIdeaAttachment,
+} from '../../lib/ideaAttachments';
+import IdeaAttachmentLink from './IdeaAttachmentLink';
+import { Lock, Upload, Link as LinkIcon, Trash2, FileText } from 'lucide-react';
+
+interface IdeaAttachmentManagerProps {
+  ideaId: string;
+}
+
+export default function IdeaAttachmentManager({ ideaId }: IdeaAttachmentManagerProps) {
+  const { user } = useAuth();
+  const [attachment, setAttachment] = useState<IdeaAttachment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    getIdeaAttachment(ideaId)
+      .then(setAttachment)
+      .catch((error) => console.error('Error loading attachment:', error))
+      .finally(() => setLoading(false));
+  }, [ideaId]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !user) return;
+
+    setUploading(true);
+    try {
+      const { path, fileName } = await uploadIdeaFile(file, user.id, ideaId);
+      await saveIdeaAttachment(ideaId, { storagePath: path, fileName });
+      setAttachment(await getIdeaAttachment(ideaId));
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+    } finally {
+      setUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleAddLink = async () => {
+    const input = prompt('Enter the demo or document URL:');
+    if (!input) return;
+
+    const url = normalizeWebLink(input);
+    if (!url) {
+      alert('Links must be web addresses starting with http:// or https://.');
+      return;
+    }
+
+    try {
+      await saveIdeaAttachment(ideaId, { fileUrl: url });
+      setAttachment(await getIdeaAttachment(ideaId));
+    } catch (error) {
+      console.error('Error saving attachment link:', error);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove this attachment? Approved requesters will lose access.')) return;
+
+    try {
+      await removeIdeaAttachment(ideaId);
+      setAttachment(null);
+    } catch (error) {
+      console.error('Error removing attachment:', error);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+      <div className="flex items-center gap-2 mb-3">
+        <Lock size={16} className="text-yellow-400" />
+        <h4 className="text-sm font-semibold">Private Attachment</h4>
+        <span className="text-xs text-gray-500">Only you and approved requesters can open it</span>
+      </div>
+
+      {attachment ? (
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            {attachment.storage_path ? (
+              <FileText size={16} className="text-blue-400 shrink-0" />
+            ) : (
+              <LinkIcon size={16} className="text-green-400 shrink-0" />
+            )}
+            <span className="text-sm text-gray-300 truncate">
+              {attachment.file_name || attachment.file_url}
+            </span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <IdeaAttachmentLink
+              ideaId={ideaId}
+              missingMessage="This attachment could not be found."
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-blue-400 transition-colors"
+            >
+              Open
+            </IdeaAttachmentLink>
+            <label
+              className="p-1 text-gray-400 hover:text-blue-400 transition-colors cursor-pointer"
+              title="Replace with a file"
+            >
+              <Upload size={16} />
+              <input type="file" onChange={handleFileUpload} className="hidden" disabled={uploading} />
+            </label>
+            <button
+              onClick={handleRemove}
+              className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              title="Remove"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex items-center justify-center gap-2 p-3 bg-gray-900/50 border-2 border-dashed border-gray-700 rounded-lg cursor-pointer hover:border-blue-500 transition-colors text-sm text-gray-300">
+            <Upload size={16} className="text-blue-400" />
+            Upload File
+            <input type="file" onChange={handleFileUpload} className="hidden" disabled={uploading} />
+          </label>
+          <button
+            type="button"
+            onClick={handleAddLink}
+            className="flex items-center justify-center gap-2 p-3 bg-gray-900/50 border-2 border-dashed border-gray-700 rounded-lg hover:border-green-500 transition-colors text-sm text-gray-300"
+          >
+            <LinkIcon size={16} className="text-green-400" />
+            Add Link
+          </button>
+        </div>
+      )}
+
+      {uploading && <p className="text-sm text-gray-400 mt-2">Uploading...</p>}
+    </div>
+  );
+}
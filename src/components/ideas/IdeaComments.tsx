@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { getProfilePath } from '../../lib/routes';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { Reply, Edit2, Trash2, Send, X } from 'lucide-react';
+import ReportButton from '../moderation/ReportButton';
+import ReputationScore from '../ReputationScore';
+
+const COMMENT_SELECT = '*, profiles(username, avatar_url, reputation)';
+
+interface IdeaComment {
+  id: string;
+  idea_id: string;
+  user_id: string;
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string | null;
+  profiles: {
+    username: string;
+    avatar_url: string;
+    reputation?: number;
+  };
+}
+
+interface IdeaCommentsProps {
+  ideaId: string;
+}
+
+const MAX_INDENT_DEPTH = 4;
+
+export default function IdeaComments({ ideaId }: IdeaCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<IdeaComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  useEffect(() => {
+    const loadComments = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('idea_comments')
+          .select(COMMENT_SELECT)
+          .eq('idea_id', ideaId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setComments(data || []);
+      } catch (error) {
+        console.error('Error loading comments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComments();
+  }, [ideaId]);
+
+  useRealtimeTable<IdeaComment>('idea_comments', {
+    onInsert: async (row) => {
+      try {
+        const { data, error } = await supabase
+          .from('idea_comments')
+          .select(COMMENT_SELECT)
+          .eq('id', row.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          setComments((prev) => (prev.some((c) => c.id === data.id) ? prev : [...prev, data]));
+        }
+      } catch (error) {
+        console.error('Error loading new comment:', error);
+      }
+    },
+    onUpdate: (row) => {
+      setComments((prev) => prev.map((c) => (c.id === row.id ? { ...c, ...row, profiles: c.profiles } : c)));
+    },
+    onDelete: (row) => {
+      setComments((prev) => prev.filter((c) => c.id !== row.id));
+    },
+  }, `idea_id=eq.${ideaId}`);
+
+  const addComment = async (content: string, parentId: string | null) => {
+    if (!user || !content.trim()) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('idea_comments')
+        .insert([
+          {
+            idea_id: ideaId,
+            user_id: user.id,
+            parent_id: parentId,
+            content: content.trim(),
+          },
+        ])
+        .select(COMMENT_SELECT)
+        .single();
+
+      if (error) throw error;
+      setComments((prev) => (prev.some((c) => c.id === data.id) ? prev : [...prev, data]));
+      return true;
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await addComment(newComment, null)) {
+      setNewComment('');
+    }
+  };
+
+  const handleReplySubmit = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (await addComment(replyText, parentId)) {
+      setReplyText('');
+      setReplyingTo(null);
+    }
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent, commentId: string) => {
+    e.preventDefault();
+    if (!editText.trim()) return;
+
+    try {
+      const updatedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('idea_comments')
+        .update({ content: editText.trim(), updated_at: updatedAt })
+        .eq('id', commentId);
+
+      if (error) throw error;
+      setComments((prev) => prev.map((c) =>
+        c.id === commentId ? { ...c, content: editText.trim(), updated_at: updatedAt } : c
+      ));
+      setEditingId(null);
+      setEditText('');
+    } catch (error) {
+      console.error('Error editing comment:', error);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment and all of its replies?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('idea_comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw error;
+
+      // Replies are removed by the ON DELETE CASCADE, so drop the whole subtree locally too.
+      const removed = new Set([commentId]);
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const c of comments) {
+          if (c.parent_id && removed.has(c.parent_id) && !removed.has(c.id)) {
+            removed.add(c.id);
+            changed = true;
+          }
+        }
+      }
+      setComments((prev) => prev.filter((c) => !removed.has(c.id)));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+    }
+  };
+
+  const getReplies = (parentId: string | null) =>
+    comments.filter((c) => c.parent_id === parentId);
+
+  const renderComment = (comment: IdeaComment, depth: number): React.ReactNode => {
+    const isOwn = user?.id === comment.user_id;
+    const replies = getReplies(comment.id);
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-6 pl-4 border-l border-gray-700' : ''}>
+        <div className="py-3">
+          <div className="flex items-center gap-2 mb-1">
+            <Link to={getProfilePath(comment.profiles.username)} className="shrink-0">
+              <img
+                src={comment.profiles.avatar_url}
+                alt={comment.profiles.username}
+                className="w-6 h-6 rounded-full"
+              />
+            </Link>
+            <Link to={getProfilePath(comment.profiles.username)} className="text-sm font-medium hover:text-blue-400 transition-colors">{comment.profiles.username}</Link>
+            <ReputationScore points={comment.profiles.reputation} />
+            <span className="text-xs text-gray-500">
+              {new Date(comment.created_at).toLocaleDateString()}
+              {comment.updated_at && ' (edited)'}
+            </span>
+          </div>
+
+          {editingId === comment.id ? (
+            <form onSubmit={(e) => handleEditSubmit(e, comment.id)} className="space-y-2">
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-sm h-20 resize-none"
+                required
+              />
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  className="text-xs bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 transition-colors"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="text-xs bg-gray-700 text-white px-3 py-1 rounded hover:bg-gray-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-300 whitespace-pre-wrap">{comment.content}</p>
+          )}
+
+          <div className="flex items-center gap-3 mt-2">
+            <button
+              onClick={() => {
+                setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                setReplyText('');
+              }}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-blue-400 transition-colors"
+            >
+              <Reply size={12} />
+              Reply
+            </button>
+            {isOwn && editingId !== comment.id && (
+              <>
+                <button
+                  onClick={() => {
+                    setEditingId(comment.id);
+                    setEditText(comment.content);
+                  }}
+                  className="flex items-center gap-1 text-xs text-gray-400 hover:text-blue-400 transition-colors"
+                >
+                  <Edit2 size={12} />
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(comment.id)}
+                  className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 size={12} />
+                  Delete
+                </button>
+              </>
+            )}
+            <ReportButton contentType="idea_comment" contentId={comment.id} authorId={comment.user_id} size={12} />
+          </div>
+
+          {replyingTo === comment.id && (
+            <form onSubmit={(e) => handleReplySubmit(e, comment.id)} className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                className="flex-1 px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-sm"
+                placeholder={`Reply to ${comment.profiles.username}...`}
+                autoFocus
+                required
+              />
+              <button
+                type="submit"
+                className="p-2 bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Send size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => setReplyingTo(null)}
+                className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                <X size={14} />
+              </button>
+            </form>
+          )}
+        </div>
+
+        {replies.map((reply) => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-400 py-4">Loading comments...</div>;
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3">
+        Comments ({comments.length})
+      </h3>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          className="flex-1 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+          placeholder="Share your feedback on this idea..."
+          required
+        />
+        <button
+          type="submit"
+          className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-4 py-2 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all"
+        >
+          <Send size={16} />
+          Post
+        </button>
+      </form>
+
+      {comments.length === 0 ? (
+        <p className="text-sm text-gray-400">No comments yet. Be the first to give feedback!</p>
+      ) : (
+        <div className="divide-y divide-gray-700/50">
+          {getReplies(null).map((comment) => renderComment(comment, 0))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { getProfilePath } from '../../lib/routes';
+import { X, ThumbsUp, Eye } from 'lucide-react';
+import ReportButton from '../moderation/ReportButton';
+import ReputationScore from '../ReputationScore';
+import IdeaComments from './IdeaComments';
+import IdeaAttachmentManager from './IdeaAttachmentManager';
+import { GameIdea } from './types';
+
+interface IdeaDetailProps {
+  idea: GameIdea;
+  onClose: () => void;
+}
+
+export default function IdeaDetail({ idea, onClose }: IdeaDetailProps) {
+  const { user } = useAuth();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-gray-700">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-start justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Link to={getProfilePath(idea.profiles.username)} className="shrink-0">
+                <img
+                  src={idea.profiles.avatar_url}
+                  alt={idea.profiles.username}
+                  className="w-8 h-8 rounded-full"
+                />
+              </Link>
+              <div>
+                <Link to={getProfilePath(idea.profiles.username)} className="text-sm font-medium hover:text-blue-400 transition-colors">{idea.profiles.username}</Link>
+                <ReputationScore points={idea.profiles.reputation} />
+                <p className="text-xs text-gray-400">
+                  {new Date(idea.created_at).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <ReportButton contentType="game_idea" contentId={idea.id} authorId={idea.creator_id} size={18} />
+              <button
+                onClick={onClose}
+                className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-2 mb-3">
+            <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-1 rounded">
+              {idea.genre}
+            </span>
+            <span className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded">
+              {idea.category}
+            </span>
+          </div>
+
+          <h2 className="text-2xl font-bold mb-3">{idea.title}</h2>
+          <p className="text-gray-300 whitespace-pre-wrap mb-4">{idea.summary}</p>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {idea.tags.map((tag) => (
+              <span key={tag} className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded">
+                {tag}
+              </span>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4 text-gray-400">
+            <div className="flex items-center gap-1">
+              <ThumbsUp size={16} />
+              <span className="text-sm">{idea.upvotes}</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <Eye size={16} />
+              <span className="text-sm">{idea.view_count}</span>
+            </div>
+          </div>
+
+          {user?.id === idea.creator_id && (
+            <div className="mt-4">
+              <IdeaAttachmentManager ideaId={idea.id} />
+            </div>
+          )}
+        </div>
+
+        <div className="p-6">
+          <IdeaComments ideaId={idea.id} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+export interface GameIdea {
+  id: string;
+  title: string;
+  genre: string;
+  category: string;
+  summary: string;
+  tags: string[];
+  upvotes: number;
+  downvotes: number;
+  view_count: number;
+  created_at: string;
+  creator_id: string;
+  profiles: {
+    username: string;
+    avatar_url: string;
+    reputation?: number;
+  };
+  idea_comments: { count: number }[];
+}
+
+export type DemoRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface DemoRequest {
+  id: string;
+  idea_id: string;
+  requester_id: string;
+  status: DemoRequestStatus;
+  message: string | null;
+  created_at: string;
+  responded_at: string | null;
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { getProfilePath } from '../../lib/routes';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { Trash2, Send } from 'lucide-react';
+import BadgeChip from '../BadgeChip';
+import ReputationScore from '../ReputationScore';
+import ReportButton from '../moderation/ReportButton';
+
+const COMMENT_SELECT = '*, profiles(username, avatar_url, badges, reputation)';
+
+interface MediaComment {
+  id: string;
+  post_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string;
+    badges?: string[];
+    reputation?: number;
+  };
+}
+
+interface MediaCommentsProps {
+  postId: string;
+}
+
+export default function MediaComments({ postId }: MediaCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<MediaComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newComment, setNewComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadComments = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('media_comments')
+          .select(COMMENT_SELECT)
+          .eq('post_id', postId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setComments(data || []);
+      } catch (error) {
+        console.error('Error loading comments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComments();
+  }, [postId]);
+
+  useRealtimeTable<MediaComment>('media_comments', {
+    onInsert: async (row) => {
+      try {
+        const { data, error } = await supabase
+          .from('media_comments')
+          .select(COMMENT_SELECT)
+          .eq('id', row.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          setComments((prev) => (prev.some((c) => c.id === data.id) ? prev : [...prev, data]));
+        }
+      } catch (error) {
+        console.error('Error loading new comment:', error);
+      }
+    },
+    onDelete: (row) => {
+      setComments((prev) => prev.filter((c) => c.id !== row.id));
+    },
+  }, `post_id=eq.${postId}`);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newComment.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase
+        .from('media_comments')
+        .insert([
+          {
+            post_id: postId,
+            user_id: user.id,
+            content: newComment.trim(),
+          },
+        ])
+        .select(COMMENT_SELECT)
+        .single();
+
+      if (error) throw error;
+      setComments((prev) => (prev.some((c) => c.id === data.id) ? prev : [...prev, data]));
+      setNewComment('');
+    } catch (error) {
+      console.error('Error adding comment:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('media_comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw error;
+      setComments((prev) => prev.filter((c) => c.id !== commentId));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-400 py-4">Loading comments...</div>;
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3">
+        Comments ({comments.length})
+      </h3>
+
+      <form onSubmit={handleSubmit} className="mb-6">
+        <textarea
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-20 resize-none mb-2"
+          placeholder="Join the discussion..."
+          required
+        />
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={submitting}
+            className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-4 py-2 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send size={16} />
+            Comment
+          </button>
+        </div>
+      </form>
+
+      {comments.length === 0 ? (
+        <p className="text-sm text-gray-400">No comments yet. Start the conversation!</p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map((comment) => (
+            <div key={comment.id} className="flex gap-3">
+              <Link to={getProfilePath(comment.profiles.username)} className="shrink-0">
+                <img
+                  src={comment.profiles.avatar_url}
+                  alt={comment.profiles.username}
+                  className="w-8 h-8 rounded-full"
+                />
+              </Link>
+              <div className="flex-1 bg-gray-900/50 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Link to={getProfilePath(comment.profiles.username)} className="text-sm font-medium hover:text-blue-400 transition-colors">{comment.profiles.username}</Link>
+                    <ReputationScore points={comment.profiles.reputation} />
+                    {comment.profiles.badges?.map((badge) => (
+                      <BadgeChip key={badge} name={badge} size="sm" />
+                    ))}
+                    <span className="text-xs text-gray-500">
+                      {new Date(comment.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {user?.id === comment.user_id ? (
+                    <button
+                      onClick={() => handleDelete(comment.id)}
+                      className="text-gray-500 hover:text-red-400 transition-colors"
+                      title="Delete comment"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  ) : (
+                    <ReportButton contentType="media_comment" contentId={comment.id} authorId={comment.user_id} />
+                  )}
+                </div>
+                <p className="text-sm text-gray-300 whitespace-pre-wrap">{comment.content}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { Link } from 'react-router-dom';
+import { getProfilePath } from '../../lib/routes';
+import { X, ThumbsUp } from 'lucide-react';
+import BadgeChip from '../BadgeChip';
+import ReputationScore from '../ReputationScore';
+import ReportButton from '../moderation/ReportButton';
+import MediaComments from './MediaComments';
+import { MediaPost } from './types';
+
+interface PostDetailProps {
+  post: MediaPost;
+  onClose: () => void;
+}
+
+export default function PostDetail({ post, onClose }: PostDetailProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-gray-700">
+        <article className="p-6 border-b border-gray-700">
+          <div className="flex items-start justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <Link to={getProfilePath(post.profiles.username)} className="shrink-0">
+                <img
+                  src={post.profiles.avatar_url}
+                  alt={post.profiles.username}
+                  className="w-10 h-10 rounded-full"
+                />
+              </Link>
+              <div>
+                <div className="flex items-center gap-2">
+                  <Link to={getProfilePath(post.profiles.username)} className="font-medium hover:text-blue-400 transition-colors">{post.profiles.username}</Link>
+                  <ReputationScore points={post.profiles.reputation} />
+                  {post.profiles.badges && post.profiles.badges.includes('Trusted Editor') && (
+                    <BadgeChip name="Trusted Editor" size="sm" />
+                  )}
+                </div>
+                <span className="text-xs text-gray-400">
+                  {new Date(post.created_at).toLocaleDateString()}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs bg-purple-600/20 text-purple-400 px-3 py-1 rounded">
+                {post.category}
+              </span>
+              <ReportButton contentType="media_post" contentId={post.id} authorId={post.author_id} size={18} />
+              <button
+                onClick={onClose}
+                className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+
+          <h2 className="text-3xl font-bold mb-4">{post.title}</h2>
+          <p className="text-gray-300 whitespace-pre-wrap mb-4">{post.content}</p>
+
+          <div className="flex items-center gap-2 text-gray-400">
+            <ThumbsUp size={18} />
+            <span>{post.upvotes}</span>
+          </div>
+        </article>
+
+        <div className="p-6">
+          <MediaComments postId={post.id} />
+        </div>
+      </div>
+    </div>
+  );
+}
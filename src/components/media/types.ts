@@ -0,0 +1,18 @@
+export interface MediaPost {
+  id: string;
+  title: string;
+  content: string;
+  category: string;
+  upvotes: number;
+  downvotes: number;
+  view_count: number;
+  created_at: string;
+  author_id: string;
+  profiles: {
+    username: string;
+    avatar_url: string;
+    badges?: string[];
+    reputation?: number;
+  };
+  media_comments: { count: number }[];
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { getProfilePath } from '../../lib/routes';
+import {
+  Report,
+  ReportContentType,
+  ReportedContent,
+  closeReports,
+  deleteContent,
+  loadReportedContent,
+  loadReports,
+  reportContentTables,
+  reportReasons,
+  setContentHidden,
+} from '../../lib/moderation';
+import { Shield, EyeOff, Eye, Trash2, Check, ExternalLink } from 'lucide-react';
+import RoleManager from './RoleManager';
+
+type QueueTab = 'open' | 'closed';
+
+interface ReportGroup {
+  key: string;
+  contentType: ReportContentType;
+  contentId: string;
+  reports: Report[];
+}
+
+const getContentKey = (contentType: ReportContentType, contentId: string) => `${contentType}:${contentId}`;
+
+// Reports are grouped by the content they target, most recently reported first.
+const groupReports = (reports: Report[]): ReportGroup[] => {
+  const groups = new Map<string, ReportGroup>();
+  for (const report of reports) {
+    const key = getContentKey(report.content_type, report.content_id);
+    const group = groups.get(key);
+    if (group) {
+      group.reports.push(report);
+    } else {
+      groups.set(key, { key, contentType: report.content_type, contentId: report.content_id, reports: [report] });
+    }
+  }
+  return [...groups.values()];
+};
+
+export default function ModerationQueue() {
+  const { user, profile } = useAuth();
+  const [tab, setTab] = useState<QueueTab>('open');
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [content, setContent] = useState<Record<string, ReportedContent>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const reports = await loadReports(tab);
+      const nextGroups = groupReports(reports);
+
+      const idsByType = new Map<ReportContentType, string[]>();
+      for (const group of nextGroups) {
+        idsByType.set(group.contentType, [...(idsByType.get(group.contentType) ?? []), group.contentId]);
+      }
+
+      const loaded = await Promise.all(
+        [...idsByType].map(([contentType, ids]) =>
+          loadReportedContent(contentType, ids).then((items) =>
+            items.map((item) => [getContentKey(contentType, item.id), item] as const)
+          )
+        )
+      );
+
+      setGroups(nextGroups);
+      setContent(Object.fromEntries(loaded.flat()));
+    } catch (err) {
+      console.error('Error loading reports:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const runAction = async (group: ReportGroup, action: () => Promise<void>) => {
+    setBusyKey(group.key);
+    setError('');
+    try {
+      await action();
+      await loadQueue();
+    } catch (err) {
+      console.error('Error moderating content:', err);
+      setError('That action failed. Please try again.');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleHide = (group: ReportGroup) =>
+    runAction(group, async () => {
+      await setContentHidden(group.contentType, group.contentId, user!.id);
+      await closeReports(group.contentType, group.contentId, 'resolved', user!.id);
+    });
+
+  const handleRestore = (group: ReportGroup) =>
+    runAction(group, () => setContentHidden(group.contentType, group.contentId, null));
+
+  const handleDelete = (group: ReportGroup) => {
+    if (!confirm(`Delete this ${reportContentTables[group.contentType].label.toLowerCase()} permanently?`)) return;
+    runAction(group, async () => {
+      await deleteContent(group.contentType, group.contentId);
+      await closeReports(group.contentType, group.contentId, 'resolved', user!.id);
+    });
+  };
+
+  const handleDismiss = (group: ReportGroup) =>
+    runAction(group, () => closeReports(group.contentType, group.contentId, 'dismissed', user!.id));
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="flex items-center gap-3 text-3xl font-bold mb-2">
+            <Shield className="text-blue-400" size={28} />
+            Moderation
+          </h1>
+          <p className="text-gray-400">Review reported content and keep the community healthy</p>
+        </div>
+      </div>
+
+      {profile?.role === 'admin' && <RoleManager />}
+
+      <div className="flex gap-2 mb-6">
+        {(['open', 'closed'] as QueueTab[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-4 py-2 rounded-lg font-medium transition-all ${
+              tab === key
+                ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {key === 'open' ? 'Open Reports' : 'Closed Reports'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-gray-400">Loading...</div>
+      ) : groups.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center text-gray-400">
+          {tab === 'open' ? 'Nothing to review. Nice and quiet!' : 'No closed reports yet.'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => {
+            const item = content[group.key];
+            const busy = busyKey === group.key;
+            return (
+              <div key={group.key} className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-1 rounded">
+                        {reportContentTables[group.contentType].label}
+                      </span>
+                      <span className="text-xs bg-red-600/20 text-red-400 px-2 py-1 rounded">
+                        {group.reports.length} {group.reports.length === 1 ? 'report' : 'reports'}
+                      </span>
+                      {!item && <span className="text-xs bg-gray-700 text-gray-400 px-2 py-1 rounded">Deleted</span>}
+                      {item?.hidden_at && (
+                        <span className="text-xs bg-yellow-600/20 text-yellow-400 px-2 py-1 rounded">Hidden</span>
+                      )}
+                    </div>
+                    {item && (
+                      <>
+                        {item.title && <h3 className="text-lg font-semibold mb-1">{item.title}</h3>}
+                        <p className="text-sm text-gray-300 whitespace-pre-wrap line-clamp-4">{item.body}</p>
+                        <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
+                          {item.author && (
+                            <Link to={getProfilePath(item.author.username)} className="hover:text-blue-400 transition-colors">
+                              by {item.author.username}
+                            </Link>
+                          )}
+                          <Link to={item.path} className="flex items-center gap-1 hover:text-blue-400 transition-colors">
+                            <ExternalLink size={12} />
+                            View in context
+                          </Link>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {item && (
+                    <div className="flex flex-col gap-2 shrink-0">
+                      {item.hidden_at ? (
+                        <button
+                          onClick={() => handleRestore(group)}
+                          disabled={busy}
+                          className="flex items-center gap-2 text-sm bg-gray-700 px-3 py-1.5 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                        >
+                          <Eye size={14} />
+                          Restore
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleHide(group)}
+                          disabled={busy}
+                          className="flex items-center gap-2 text-sm bg-yellow-600/20 text-yellow-400 px-3 py-1.5 rounded-lg hover:bg-yellow-600/30 transition-colors disabled:opacity-50"
+                        >
+                          <EyeOff size={14} />
+                          Hide
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(group)}
+                        disabled={busy}
+                        className="flex items-center gap-2 text-sm bg-red-600/20 text-red-400 px-3 py-1.5 rounded-lg hover:bg-red-600/30 transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 size={14} />
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2 border-t border-gray-700 pt-4">
+                  {group.reports.map((report) => (
+                    <div key={report.id} className="flex items-start gap-3 text-sm">
+                      <img
+                        src={report.reporter.avatar_url}
+                        alt={report.reporter.username}
+                        className="w-6 h-6 rounded-full"
+                      />
+                      <div className="flex-1">
+                        <p>
+                          <span className="font-medium">{report.reporter.username}</span>
+                          <span className="text-gray-400"> reported {reportReasons[report.reason].toLowerCase()}</span>
+                          <span className="text-xs text-gray-500 ml-2">
+                            {new Date(report.created_at).toLocaleDateString()}
+                          </span>
+                          {report.status !== 'open' && (
+                            <span className="text-xs text-gray-500 ml-2">({report.status})</span>
+                          )}
+                        </p>
+                        {report.details && <p className="text-gray-400 whitespace-pre-wrap">{report.details}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {tab === 'open' && (
+                  <div className="flex justify-end mt-4">
+                    <button
+                      onClick={() => handleDismiss(group)}
+                      disabled={busy}
+                      className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                    >
+                      <Check size={14} />
+                      {item ? 'Dismiss reports' : 'Close reports'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ReportContentType } from '../../lib/moderation';
+import { Flag } from 'lucide-react';
+import ReportModal from './ReportModal';
+
+interface ReportButtonProps {
+  contentType: ReportContentType;
+  contentId: string;
+  authorId: string;
+  size?: number;
+}
+
+export default function ReportButton({ contentType, contentId, authorId, size = 14 }: ReportButtonProps) {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reported, setReported] = useState(false);
+
+  if (!user || user.id === authorId) return null;
+
+  return (
+    <>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(true);
+        }}
+        disabled={reported}
+        className="text-gray-500 hover:text-red-400 transition-colors disabled:text-red-400 disabled:cursor-default"
+        title={reported ? 'Reported' : 'Report'}
+      >
+        <Flag size={size} />
+      </button>
+      {isOpen && (
+        <ReportModal
+          contentType={contentType}
+          contentId={contentId}
+          onClose={() => setIsOpen(false)}
+          onReported={() => {
+            setIsOpen(false);
+            setReported(true);
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ReportContentType, ReportReason, reportContent, reportContentTables, reportReasons } from '../../lib/moderation';
+import { Flag } from 'lucide-react';
+
+interface ReportModalProps {
+  contentType: ReportContentType;
+  contentId: string;
+  onClose: () => void;
+  onReported: () => void;
+}
+
+export default function ReportModal({ contentType, contentId, onClose, onReported }: ReportModalProps) {
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setError('');
+    setSubmitting(true);
+    try {
+      await reportContent(user.id, contentType, contentId, reason, details);
+      onReported();
+    } catch (err) {
+      console.error('Error filing report:', err);
+      setError(err instanceof Error ? err.message : 'Could not send your report. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700 text-left">
+        <div className="flex items-center gap-2 mb-2">
+          <Flag className="text-red-400" size={20} />
+          <h3 className="text-xl font-semibold">Report {reportContentTables[contentType].label}</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Moderators will review your report. The author won't see who sent it.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {(Object.keys(reportReasons) as ReportReason[]).map((key) => (
+              <label key={key} className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={key}
+                  checked={reason === key}
+                  onChange={() => setReason(key)}
+                />
+                {reportReasons[key]}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Details (optional)</label>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white h-24 resize-none"
+              placeholder="Anything that helps moderators understand the problem..."
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send Report
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
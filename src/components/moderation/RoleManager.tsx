@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { getProfilePath } from '../../lib/routes';
+import { UserRole, setUserRole } from '../../lib/moderation';
+import { UserCog } from 'lucide-react';
+
+interface StaffMember {
+  id: string;
+  username: string;
+  avatar_url: string;
+  role: UserRole;
+}
+
+export default function RoleManager() {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<UserRole>('moderator');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, avatar_url, role')
+        .in('role', ['moderator', 'admin'])
+        .order('username');
+
+      if (error) throw error;
+      setStaff(data || []);
+    } catch (err) {
+      console.error('Error loading moderators:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadStaff();
+  }, []);
+
+  const applyRole = async (target: string, nextRole: UserRole) => {
+    setSaving(true);
+    setError('');
+    try {
+      await setUserRole(target, nextRole);
+      setUsername('');
+      await loadStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not change that role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) applyRole(username.trim(), role);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <UserCog className="text-blue-400" size={20} />
+        <h2 className="text-lg font-semibold">Team</h2>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {staff.map((member) => (
+          <div key={member.id} className="flex items-center gap-2 bg-gray-900 rounded-lg pl-2 pr-3 py-1.5">
+            <img src={member.avatar_url} alt={member.username} className="w-6 h-6 rounded-full" />
+            <Link to={getProfilePath(member.username)} className="text-sm hover:text-blue-400 transition-colors">
+              {member.username}
+            </Link>
+            <span className="text-xs text-gray-400 capitalize">{member.role}</span>
+            <button
+              onClick={() => applyRole(member.username, 'member')}
+              disabled={saving}
+              className="text-xs text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
+              title="Remove role"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="flex-1 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+          placeholder="Username"
+          required
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+        >
+          <option value="moderator">Moderator</option>
+          <option value="admin">Admin</option>
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Assign
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { Github, MessageCircle, Twitch } from 'lucide-react';
+import { OAuthProvider } from '../lib/oauth';
+
+export const oauthProviderIcons: Record<OAuthProvider, { icon: typeof Github; color: string }> = {
+  discord: { icon: MessageCircle, color: 'bg-indigo-600 hover:bg-indigo-700' },
+  github: { icon: Github, color: 'bg-gray-700 hover:bg-gray-600' },
+  twitch: { icon: Twitch, color: 'bg-purple-700 hover:bg-purple-800' },
+};
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { OAuthProvider, oauthProviderKeys, oauthProviders } from '../../lib/oauth';
+import { validateNewPassword } from '../../lib/passwords';
+import { oauthProviderIcons } from '../oauthProviderIcons';
+import { KeyRound, Link2, Mail } from 'lucide-react';
+
+export default function AccountSettings() {
+  const { user, updateEmail, sendReauthenticationCode, updatePassword, linkProvider, unlinkIdentity } = useAuth();
+  const [newEmail, setNewEmail] = useState('');
+  const [emailStatus, setEmailStatus] = useState<{ error?: string; notice?: string }>({});
+  const [savingEmail, setSavingEmail] = useState(false);
+
+  const [passwordData, setPasswordData] = useState({ current: '', next: '', confirm: '' });
+  const [passwordStatus, setPasswordStatus] = useState<{ error?: string; notice?: string }>({});
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [sendingCode, setSendingCode] = useState(false);
+
+  const [identityError, setIdentityError] = useState('');
+  const [identityBusy, setIdentityBusy] = useState<OAuthProvider | null>(null);
+
+  const identities = user?.identities ?? [];
+  // Accounts created through a provider have no password to confirm, so setting the first
+  // one is confirmed with a code emailed to the account instead.
+  const hasPassword = identities.some((identity) => identity.provider === 'email');
+
+  const handleConnect = async (provider: OAuthProvider) => {
+    setIdentityBusy(provider);
+    setIdentityError('');
+    try {
+      await linkProvider(provider);
+    } catch (error) {
+      setIdentityError(error instanceof Error ? error.message : 'Could not connect that account');
+      setIdentityBusy(null);
+    }
+  };
+
+  const handleDisconnect = async (provider: OAuthProvider) => {
+    const identity = identities.find((i) => i.provider === provider);
+    if (!identity || !confirm(`Disconnect your ${oauthProviders[provider].label} account?`)) return;
+
+    setIdentityBusy(provider);
+    setIdentityError('');
+    try {
+      await unlinkIdentity(identity);
+    } catch (error) {
+      setIdentityError(error instanceof Error ? error.message : 'Could not disconnect that account');
+    } finally {
+      setIdentityBusy(null);
+    }
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = newEmail.trim();
+    if (!email || email === user?.email) return;
+
+    setSavingEmail(true);
+    setEmailStatus({});
+    try {
+      await updateEmail(email);
+      setNewEmail('');
+      setEmailStatus({ notice: `Follow the link sent to ${email} to confirm the change.` });
+    } catch (error) {
+      setEmailStatus({ error: error instanceof Error ? error.message : 'Could not change your email' });
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNewPassword(passwordData.next, passwordData.confirm);
+    if (validationError) {
+      setPasswordStatus({ error: validationError });
+      return;
+    }
+
+    setSavingPassword(true);
+    setPasswordStatus({});
+    try {
+      await updatePassword(
+        passwordData.next,
+        hasPassword ? { currentPassword: passwordData.current } : { nonce: passwordData.current.trim() }
+      );
+      setPasswordData({ current: '', next: '', confirm: '' });
+      setPasswordStatus({ notice: hasPassword ? 'Your password has been changed.' : 'Your password has been set.' });
+    } catch (error) {
+      setPasswordStatus({ error: error instanceof Error ? error.message : 'Could not change your password' });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    setSendingCode(true);
+    setPasswordStatus({});
+    try {
+      await sendReauthenticationCode();
+      setPasswordStatus({ notice: `Enter the code sent to ${user?.email} to set your password.` });
+    } catch (error) {
+      setPasswordStatus({ error: error instanceof Error ? error.message : 'Could not send a code' });
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
+  const renderStatus = (status: { error?: string; notice?: string }) => (
+    <>
+      {status.error && <p className="text-sm text-red-400">{status.error}</p>}
+      {status.notice && <p className="text-sm text-blue-300">{status.notice}</p>}
+    </>
+  );
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 mb-8">
+      <h2 className="text-2xl font-bold mb-6">Account</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <form onSubmit={handleEmailSubmit} className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <Mail size={18} className="text-blue-400" />
+            Email
+          </h3>
+          <p className="text-sm text-gray-400">
+            Signed in as <span className="text-gray-200">{user?.email}</span>
+          </p>
+          {user?.new_email && (
+            <p className="text-xs text-yellow-400">Waiting for confirmation of {user.new_email}</p>
+          )}
+          <input
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+            placeholder="New email address"
+            required
+          />
+          {renderStatus(emailStatus)}
+          <button
+            type="submit"
+            disabled={savingEmail}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {savingEmail ? 'Sending...' : 'Change Email'}
+          </button>
+        </form>
+
+        <form onSubmit={handlePasswordSubmit} className="space-y-3">
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <KeyRound size={18} className="text-blue-400" />
+            Password
+          </h3>
+          {hasPassword ? (
+            <input
+              type="password"
+              value={passwordData.current}
+              onChange={(e) => setPasswordData({ ...passwordData, current: e.target.value })}
+              className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+              placeholder="Current password"
+              autoComplete="current-password"
+              required
+            />
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">
+                You sign in with a connected account. Add a password by confirming a code sent
+                to {user?.email}.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={passwordData.current}
+                  onChange={(e) => setPasswordData({ ...passwordData, current: e.target.value })}
+                  className="flex-1 min-w-0 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+                  placeholder="Code from your email"
+                  autoComplete="one-time-code"
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={handleSendCode}
+                  disabled={sendingCode}
+                  className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  {sendingCode ? 'Sending...' : 'Send Code'}
+                </button>
+              </div>
+            </>
+          )}
+          <input
+            type="password"
+            value={passwordData.next}
+            onChange={(e) => setPasswordData({ ...passwordData, next: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+            placeholder="New password"
+            autoComplete="new-password"
+            required
+          />
+          <input
+            type="password"
+            value={passwordData.confirm}
+            onChange={(e) => setPasswordData({ ...passwordData, confirm: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
+            placeholder="Confirm new password"
+            autoComplete="new-password"
+            required
+          />
+          {renderStatus(passwordStatus)}
+          <button
+            type="submit"
+            disabled={savingPassword}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {savingPassword ? 'Saving...' : hasPassword ? 'Change Password' : 'Set Password'}
+          </button>
+        </form>
+      </div>
+
+      <div className="mt-8 pt-6 border-t border-gray-700">
+        <h3 className="flex items-center gap-2 text-lg font-semibold mb-3">
+          <Link2 size={18} className="text-blue-400" />
+          Connected Accounts
+        </h3>
+        <div className="space-y-2">
+          {oauthProviderKeys.map((provider) => {
+            const { icon: Icon } = oauthProviderIcons[provider];
+            const identity = identities.find((i) => i.provider === provider);
+            const providerName = identity?.identity_data?.user_name ?? identity?.identity_data?.full_name;
+            return (
+              <div key={provider} className="flex items-center justify-between bg-gray-900 rounded-lg px-4 py-3">
+                <div className="flex items-center gap-3">
+                  <Icon size={18} className="text-gray-300" />
+                  <div>
+                    <p className="text-sm font-medium">{oauthProviders[provider].label}</p>
+                    <p className="text-xs text-gray-400">
+                      {identity ? `Connected${providerName ? ` as ${providerName}` : ''}` : 'Not connected'}
+                    </p>
+                  </div>
+                </div>
+                {identity ? (
+                  <button
+                    onClick={() => handleDisconnect(provider)}
+                    disabled={identityBusy !== null || identities.length < 2}
+                    title={identities.length < 2 ? 'This is the only way you can sign in' : undefined}
+                    className="text-sm text-gray-400 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Disconnect
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleConnect(provider)}
+                    disabled={identityBusy !== null}
+                    className="text-sm text-blue-400 hover:text-blue-300 transition-colors disabled:opacity-50"
+                  >
+                    {identityBusy === provider ? 'Connecting...' : 'Connect'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {identityError && <p className="text-sm text-red-400 mt-2">{identityError}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { uploadAvatar, deleteAvatar } from '../../lib/storage';
+import { cropToSquare, getDiceBearAvatarUrl, loadImage, randomAvatarSeed } from '../../lib/avatars';
+import { X, Upload, RefreshCw, ZoomIn } from 'lucide-react';
+
+interface AvatarEditorProps {
+  onClose: () => void;
+}
+
+const VIEWPORT_SIZE = 256;
+const MAX_ZOOM = 3;
+const MAX_SOURCE_FILE_SIZE = 10 * 1024 * 1024;
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+export default function AvatarEditor({ onClose }: AvatarEditorProps) {
+  const { user, profile, refreshProfile } = useAuth();
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [diceBearSeed, setDiceBearSeed] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const dragStart = useRef<{ pointer: Offset; offset: Offset } | null>(null);
+  const objectUrl = useRef<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (objectUrl.current) URL.revokeObjectURL(objectUrl.current);
+    };
+  }, []);
+
+  // The image always covers the square viewport, so the shorter side fits it at zoom 1.
+  const scale = image ? (VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight)) * zoom : 1;
+
+  const clampOffset = (next: Offset, nextScale: number): Offset => {
+    if (!image) return next;
+    const minX = VIEWPORT_SIZE - image.naturalWidth * nextScale;
+    const minY = VIEWPORT_SIZE - image.naturalHeight * nextScale;
+    return {
+      x: Math.min(0, Math.max(minX, next.x)),
+      y: Math.min(0, Math.max(minY, next.y)),
+    };
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Choose an image file.');
+      return;
+    }
+    if (file.size > MAX_SOURCE_FILE_SIZE) {
+      setError('Images must be 10 MB or smaller.');
+      return;
+    }
+
+    try {
+      if (objectUrl.current) URL.revokeObjectURL(objectUrl.current);
+      objectUrl.current = URL.createObjectURL(file);
+      const loaded = await loadImage(objectUrl.current);
+      const baseScale = VIEWPORT_SIZE / Math.min(loaded.naturalWidth, loaded.naturalHeight);
+
+      setImage(loaded);
+      setZoom(1);
+      setOffset({
+        x: (VIEWPORT_SIZE - loaded.naturalWidth * baseScale) / 2,
+        y: (VIEWPORT_SIZE - loaded.naturalHeight * baseScale) / 2,
+      });
+      setDiceBearSeed(null);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that image');
+    }
+  };
+
+  const handleZoomChange = (nextZoom: number) => {
+    if (!image) return;
+    const nextScale = (VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight)) * nextZoom;
+    // Zoom around the centre of the viewport rather than the top-left corner.
+    const center = VIEWPORT_SIZE / 2;
+    const ratio = nextScale / scale;
+    setOffset(clampOffset({
+      x: center - (center - offset.x) * ratio,
+      y: center - (center - offset.y) * ratio,
+    }, nextScale));
+    setZoom(nextZoom);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!image) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointer: { x: e.clientX, y: e.clientY }, offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const { pointer, offset: startOffset } = dragStart.current;
+    setOffset(clampOffset({
+      x: startOffset.x + e.clientX - pointer.x,
+      y: startOffset.y + e.clientY - pointer.y,
+    }, scale));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleRegenerate = () => {
+    setImage(null);
+    setDiceBearSeed(randomAvatarSeed());
+    setError('');
+  };
+
+  const handleSave = async () => {
+    if (!user || (!image && !diceBearSeed)) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      let avatarUrl: string;
+      if (image) {
+        const blob = await cropToSquare(image, {
+          x: -offset.x / scale,
+          y: -offset.y / scale,
+          size: VIEWPORT_SIZE / scale,
+        });
+        avatarUrl = await uploadAvatar(blob, user.id);
+      } else {
+        avatarUrl = getDiceBearAvatarUrl(diceBearSeed!);
+      }
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ avatar_url: avatarUrl })
+        .eq('id', user.id);
+
+      if (updateError) throw updateError;
+
+      if (profile?.avatar_url) {
+        deleteAvatar(profile.avatar_url).catch((err) => console.error('Error deleting old avatar:', err));
+      }
+
+      await refreshProfile();
+      onClose();
+    } catch (err) {
+      console.error('Error saving avatar:', err);
+      setError('Could not save your avatar. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">Change Avatar</h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative overflow-hidden rounded-full bg-gray-900 border border-gray-700 touch-none select-none"
+            style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE, cursor: image ? 'grab' : 'default' }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {image ? (
+              <img
+                src={image.src}
+                alt="Avatar preview"
+                draggable={false}
+                className="absolute max-w-none pointer-events-none"
+                style={{
+                  left: offset.x,
+                  top: offset.y,
+                  width: image.naturalWidth * scale,
+                  height: image.naturalHeight * scale,
+                }}
+              />
+            ) : (
+              <img
+                src={diceBearSeed ? getDiceBearAvatarUrl(diceBearSeed) : profile?.avatar_url || getDiceBearAvatarUrl('default')}
+                alt="Avatar preview"
+                className="w-full h-full"
+              />
+            )}
+          </div>
+
+          {image && (
+            <div className="flex items-center gap-3 w-full">
+              <ZoomIn size={18} className="text-gray-400" />
+              <input
+                type="range"
+                min={1}
+                max={MAX_ZOOM}
+                step={0.01}
+                value={zoom}
+                onChange={(e) => handleZoomChange(Number(e.target.value))}
+                className="flex-1"
+              />
+            </div>
+          )}
+          {image && <p className="text-xs text-gray-400">Drag to reposition, use the slider to zoom.</p>}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex gap-3 w-full">
+            <label className="flex-1 flex items-center justify-center gap-2 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all cursor-pointer">
+              <Upload size={16} />
+              Upload Photo
+              <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+            </label>
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              className="flex-1 flex items-center justify-center gap-2 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
+            >
+              <RefreshCw size={16} />
+              Regenerate
+            </button>
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={saving || (!image && !diceBearSeed)}
+            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-2 px-4 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save Avatar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useBadgeDefinitions } from '../../hooks/useBadgeDefinitions';
+import { awardBadge, revokeBadge } from '../../lib/badges';
+import { Award, X } from 'lucide-react';
+
+interface BadgeManagerProps {
+  userId: string;
+  badges: string[];
+  onBadgesChange: (badges: string[]) => void;
+}
+
+// Admin-only controls for handing out and taking back badges on a public profile.
+export default function BadgeManager({ userId, badges, onBadgesChange }: BadgeManagerProps) {
+  const { user } = useAuth();
+  const definitions = useBadgeDefinitions();
+  const [selectedBadgeId, setSelectedBadgeId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const available = definitions.filter((d) => !badges.includes(d.name));
+  const held = definitions.filter((d) => badges.includes(d.name));
+
+  const reloadBadges = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('badges')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    onBadgesChange(data.badges || []);
+  };
+
+  const runChange = async (change: () => Promise<void>) => {
+    setSaving(true);
+    setError('');
+    try {
+      await change();
+      await reloadBadges();
+    } catch (err) {
+      console.error('Error updating badges:', err);
+      setError('Could not update badges. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAward = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !selectedBadgeId) return;
+    runChange(async () => {
+      await awardBadge(userId, selectedBadgeId, user.id);
+      setSelectedBadgeId('');
+    });
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 mb-6">
+      <p className="text-xs font-medium text-gray-400 uppercase tracking-wide mb-3">Manage badges</p>
+      {held.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {held.map((definition) => (
+            <button
+              key={definition.id}
+              onClick={() => runChange(() => revokeBadge(userId, definition.id))}
+              disabled={saving}
+              className="flex items-center gap-1 text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded hover:bg-red-600/20 hover:text-red-400 transition-colors disabled:opacity-50"
+              title={`Revoke ${definition.name}`}
+            >
+              {definition.name}
+              <X size={12} />
+            </button>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleAward} className="flex gap-2">
+        <select
+          value={selectedBadgeId}
+          onChange={(e) => setSelectedBadgeId(e.target.value)}
+          className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-sm"
+        >
+          <option value="">Choose a badge...</option>
+          {available.map((definition) => (
+            <option key={definition.id} value={definition.id}>
+              {definition.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving || !selectedBadgeId}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Award size={14} />
+          Award
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
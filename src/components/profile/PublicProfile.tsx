@@ -0,0 +1,416 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useFollowCounts } from '../../hooks/useFollowCounts';
+import { getItemPath, getProfilePath } from '../../lib/routes';
+import { parseSocialLinks } from '../../lib/socialLinks';
+import { resolveUsername } from '../../lib/usernames';
+import {
+  ArrowLeft,
+  Briefcase,
+  Calendar,
+  ExternalLink,
+  FileText,
+  Image as ImageIcon,
+  Lightbulb,
+  Link as LinkIcon,
+  Newspaper,
+  ThumbsUp,
+  Trophy,
+  Users,
+} from 'lucide-react';
+import BadgeChip from '../BadgeChip';
+import FollowButton from '../FollowButton';
+import ReputationScore from '../ReputationScore';
+import BadgeManager from './BadgeManager';
+import SocialLinksList from './SocialLinksList';
+import { PortfolioItem } from './types';
+
+interface PublicProfileData {
+  id: string;
+  username: string;
+  avatar_url?: string;
+  bio?: string;
+  badges?: string[];
+  reputation?: number;
+  social_links?: unknown;
+  created_at: string;
+}
+
+interface ProfileIdea {
+  id: string;
+  title: string;
+  genre: string;
+  category: string;
+  summary: string;
+  upvotes: number;
+  created_at: string;
+}
+
+interface ProfilePost {
+  id: string;
+  title: string;
+  category: string;
+  content: string;
+  upvotes: number;
+  created_at: string;
+}
+
+interface ProfileEvent {
+  id: string;
+  title: string;
+  event_type: string;
+  event_date: string;
+  location: string;
+}
+
+interface ProfileProject {
+  id: string;
+  title: string;
+  description: string;
+  stage: string;
+  created_at: string;
+}
+
+type ProfileTab = 'portfolio' | 'ideas' | 'posts' | 'events' | 'projects';
+
+interface PublicProfileProps {
+  username: string;
+  onBack: () => void;
+}
+
+export default function PublicProfile({ username, onBack }: PublicProfileProps) {
+  const navigate = useNavigate();
+  const { profile: viewerProfile } = useAuth();
+  const [profile, setProfile] = useState<PublicProfileData | null>(null);
+  const [portfolioItems, setPortfolioItems] = useState<PortfolioItem[]>([]);
+  const [ideas, setIdeas] = useState<ProfileIdea[]>([]);
+  const [posts, setPosts] = useState<ProfilePost[]>([]);
+  const [events, setEvents] = useState<ProfileEvent[]>([]);
+  const [projects, setProjects] = useState<ProfileProject[]>([]);
+  const [activeTab, setActiveTab] = useState<ProfileTab>('portfolio');
+  const [loading, setLoading] = useState(true);
+  const [followCounts, setFollowCounts] = useFollowCounts(profile?.id);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, username, avatar_url, bio, badges, reputation, social_links, created_at')
+          .eq('username', username)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+          // Links to a renamed profile keep working by following the rename history.
+          const currentUsername = await resolveUsername(username);
+          if (currentUsername) {
+            navigate(getProfilePath(currentUsername), { replace: true });
+            return;
+          }
+        }
+        setProfile(data);
+        if (!data) return;
+
+        const [portfolioResult, ideasResult, postsResult, eventsResult, projectsResult] = await Promise.all([
+          supabase
+            .from('portfolio_items')
+            .select('*')
+            .eq('user_id', data.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('game_ideas')
+            .select('id, title, genre, category, summary, upvotes, created_at')
+            .eq('creator_id', data.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('media_posts')
+            .select('id, title, category, content, upvotes, created_at')
+            .eq('author_id', data.id)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('events')
+            .select('id, title, event_type, event_date, location')
+            .eq('organizer_id', data.id)
+            .order('event_date', { ascending: false }),
+          supabase
+            .from('projects')
+            .select('id, title, description, stage, created_at')
+            .eq('creator_id', data.id)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (portfolioResult.error) throw portfolioResult.error;
+        if (ideasResult.error) throw ideasResult.error;
+        if (postsResult.error) throw postsResult.error;
+        if (eventsResult.error) throw eventsResult.error;
+        if (projectsResult.error) throw projectsResult.error;
+
+        setPortfolioItems(portfolioResult.data || []);
+        setIdeas(ideasResult.data || []);
+        setPosts(postsResult.data || []);
+        setEvents(eventsResult.data || []);
+        setProjects(projectsResult.data || []);
+      } catch (error) {
+        console.error('Error loading profile:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, [username, navigate]);
+
+  const tabs: { id: ProfileTab; label: string; icon: typeof Lightbulb; count: number }[] = [
+    { id: 'portfolio', label: 'Portfolio', icon: Briefcase, count: portfolioItems.length },
+    { id: 'ideas', label: 'Ideas', icon: Lightbulb, count: ideas.length },
+    { id: 'posts', label: 'Posts', icon: Newspaper, count: posts.length },
+    { id: 'events', label: 'Events', icon: Trophy, count: events.length },
+    { id: 'projects', label: 'Projects', icon: Users, count: projects.length },
+  ];
+
+  const renderEmpty = (message: string) => (
+    <p className="text-center text-gray-400 py-12">{message}</p>
+  );
+
+  const renderTab = () => {
+    switch (activeTab) {
+      case 'portfolio':
+        if (portfolioItems.length === 0) return renderEmpty('No portfolio items yet');
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {portfolioItems.map((item) => (
+              <div key={item.id} className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+                {item.image_url && (
+                  <img
+                    src={item.image_url}
+                    alt={item.title}
+                    className="w-full h-40 object-cover rounded-lg mb-3"
+                  />
+                )}
+
+                {item.file_url && (
+                  <div className="mb-3 p-3 bg-gray-800 rounded-lg border border-gray-700">
+                    <div className="flex items-center gap-2">
+                      {item.file_type === 'image' && <ImageIcon className="text-blue-400" size={18} />}
+                      {item.file_type === 'pdf' && <FileText className="text-red-400" size={18} />}
+                      {item.file_type === 'link' && <LinkIcon className="text-green-400" size={18} />}
+                      <span className="text-xs text-gray-300 truncate flex-1">{item.file_name}</span>
+                      <a
+                        href={item.file_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-gray-400 hover:text-blue-400 transition-colors"
+                      >
+                        <ExternalLink size={14} />
+                      </a>
+                    </div>
+                  </div>
+                )}
+
+                <h4 className="text-lg font-semibold mb-2">{item.title}</h4>
+                <p className="text-gray-400 text-sm mb-3 line-clamp-2">{item.description}</p>
+
+                <div className="flex flex-wrap gap-2">
+                  {item.tags.map((tag) => (
+                    <span key={tag} className="text-xs bg-gray-800 text-gray-300 px-2 py-1 rounded">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      case 'ideas':
+        if (ideas.length === 0) return renderEmpty('No ideas shared yet');
+        return (
+          <div className="space-y-3">
+            {ideas.map((idea) => (
+              <button
+                key={idea.id}
+                onClick={() => navigate(getItemPath('game_idea', idea.id))}
+                className="w-full text-left p-4 bg-gray-900/50 rounded-lg border border-gray-700 hover:border-blue-500/50 transition-all"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold">{idea.title}</h4>
+                  <span className="flex items-center gap-1 text-sm text-gray-400">
+                    <ThumbsUp size={14} />
+                    {idea.upvotes}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-400 line-clamp-2 mb-2">{idea.summary}</p>
+                <div className="flex gap-2">
+                  <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">{idea.genre}</span>
+                  <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded">{idea.category}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+        );
+      case 'posts':
+        if (posts.length === 0) return renderEmpty('No posts published yet');
+        return (
+          <div className="space-y-3">
+            {posts.map((post) => (
+              <button
+                key={post.id}
+                onClick={() => navigate(getItemPath('media_post', post.id))}
+                className="w-full text-left p-4 bg-gray-900/50 rounded-lg border border-gray-700 hover:border-blue-500/50 transition-all"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold">{post.title}</h4>
+                  <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">{post.category}</span>
+                </div>
+                <p className="text-sm text-gray-400 line-clamp-2 mb-2">{post.content}</p>
+                <span className="text-xs text-gray-500">{new Date(post.created_at).toLocaleDateString()}</span>
+              </button>
+            ))}
+          </div>
+        );
+      case 'events':
+        if (events.length === 0) return renderEmpty('No events organized yet');
+        return (
+          <div className="space-y-3">
+            {events.map((event) => (
+              <button
+                key={event.id}
+                onClick={() => navigate(getItemPath('event', event.id))}
+                className="w-full text-left p-4 bg-gray-900/50 rounded-lg border border-gray-700 hover:border-blue-500/50 transition-all"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold">{event.title}</h4>
+                  <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">{event.event_type}</span>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <Calendar size={14} />
+                  <span>{new Date(event.event_date).toLocaleDateString()}</span>
+                  <span className="text-gray-600">•</span>
+                  <span>{event.location}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+        );
+      case 'projects':
+        if (projects.length === 0) return renderEmpty('No projects shared yet');
+        return (
+          <div className="space-y-3">
+            {projects.map((project) => (
+              <button
+                key={project.id}
+                onClick={() => navigate(getItemPath('project', project.id))}
+                className="w-full text-left p-4 bg-gray-900/50 rounded-lg border border-gray-700 hover:border-blue-500/50 transition-all"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold">{project.title}</h4>
+                  <span className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded">{project.stage}</span>
+                </div>
+                <p className="text-sm text-gray-400 line-clamp-2">{project.description}</p>
+              </button>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900/20 to-purple-900/20 text-white">
+      <div className="max-w-4xl mx-auto p-6">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-blue-400 hover:text-blue-300 mb-6 transition-colors"
+        >
+          <ArrowLeft size={20} />
+          Back
+        </button>
+
+        {loading ? (
+          <div className="text-gray-400 text-center py-12">Loading...</div>
+        ) : !profile ? (
+          <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center text-gray-400">
+            No creator named "{username}" was found.
+          </div>
+        ) : (
+          <>
+            <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 mb-8">
+              <div className="flex items-start gap-6 mb-6">
+                <img
+                  src={profile.avatar_url || 'https://api.dicebear.com/7.x/avataaars/svg?seed=default'}
+                  alt={profile.username}
+                  className="w-24 h-24 rounded-full ring-2 ring-blue-500/50"
+                />
+
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h1 className="text-3xl font-bold">{profile.username}</h1>
+                    <ReputationScore points={profile.reputation} />
+                  </div>
+                  {profile.badges && profile.badges.length > 0 && (
+                    <div className="flex items-center gap-2 mb-3">
+                      {profile.badges.map((badge) => (
+                        <BadgeChip key={badge} name={badge} />
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-sm text-gray-400 mb-1">
+                    <span className="text-white font-medium">{followCounts.followers}</span>{' '}
+                    {followCounts.followers === 1 ? 'follower' : 'followers'} ·{' '}
+                    <span className="text-white font-medium">{followCounts.following}</span> following
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Member since {new Date(profile.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+
+                <FollowButton
+                  userId={profile.id}
+                  onChange={(following) =>
+                    setFollowCounts((prev) => ({ ...prev, followers: prev.followers + (following ? 1 : -1) }))
+                  }
+                />
+              </div>
+
+              {viewerProfile?.role === 'admin' && (
+                <BadgeManager
+                  userId={profile.id}
+                  badges={profile.badges ?? []}
+                  onBadgesChange={(badges) => setProfile({ ...profile, badges })}
+                />
+              )}
+
+              <p className="text-gray-300 whitespace-pre-wrap mb-6">{profile.bio || 'No bio added yet'}</p>
+
+              <SocialLinksList links={parseSocialLinks(profile.social_links)} emptyMessage="No social links shared" />
+            </div>
+
+            <div className="bg-gray-800 rounded-xl p-8 border border-gray-700">
+              <div className="flex gap-2 mb-6 overflow-x-auto pb-2">
+                {tabs.map(({ id, label, icon: Icon, count }) => (
+                  <button
+                    key={id}
+                    onClick={() => setActiveTab(id)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg whitespace-nowrap transition-all ${
+                      activeTab === id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-900/50 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    <Icon size={16} />
+                    {label}
+                    <span className="text-xs opacity-75">{count}</span>
+                  </button>
+                ))}
+              </div>
+
+              {renderTab()}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
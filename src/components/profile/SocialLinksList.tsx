@@ -0,0 +1,35 @@
+import { SocialLinks, socialPlatformKeys, socialPlatforms } from '../../lib/socialLinks';
+import { socialPlatformIcons } from './socialIcons';
+
+interface SocialLinksListProps {
+  links: SocialLinks;
+  emptyMessage?: string;
+}
+
+export default function SocialLinksList({ links, emptyMessage = 'No social links added yet' }: SocialLinksListProps) {
+  const platforms = socialPlatformKeys.filter((platform) => links[platform]);
+
+  if (platforms.length === 0) {
+    return <p className="text-sm text-gray-400">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {platforms.map((platform) => {
+        const { icon: Icon, color } = socialPlatformIcons[platform];
+        return (
+          <a
+            key={platform}
+            href={links[platform]}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`p-2 rounded-lg transition-all ${color}`}
+            title={socialPlatforms[platform].label}
+          >
+            <Icon size={24} />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
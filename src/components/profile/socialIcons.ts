@@ -0,0 +1,9 @@
+import { Youtube, Instagram, Twitter, Linkedin } from 'lucide-react';
+import { SocialPlatform } from '../../lib/socialLinks';
+
+export const socialPlatformIcons: Record<SocialPlatform, { icon: typeof Youtube; color: string }> = {
+  youtube: { icon: Youtube, color: 'text-red-500 hover:text-red-400' },
+  instagram: { icon: Instagram, color: 'text-pink-500 hover:text-pink-400' },
+  twitter: { icon: Twitter, color: 'text-blue-400 hover:text-blue-300' },
+  linkedin: { icon: Linkedin, color: 'text-blue-600 hover:text-blue-500' },
+};
@@ -0,0 +1,11 @@
+export interface PortfolioItem {
+  id: string;
+  title: string;
+  description: string;
+  image_url?: string;
+  file_url?: string;
+  file_type?: string;
+  file_name?: string;
+  tags: string[];
+  created_at: string;
+}
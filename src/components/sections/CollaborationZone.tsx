@@ -1,45 +1,53 @@
 import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { Plus, Star, MessageCircle, Users, X } from 'lucide-react';
-
-interface Project {
-  id: string;
-  title: string;
-  description: string;
-  stage: string;
-  rating_sum: number;
-  rating_count: number;
-  created_at: string;
-  creator_id: string;
-  profiles: {
-    username: string;
-    avatar_url: string;
-  };
-}
-
-interface CollaboratorRequest {
-  id: string;
-  project_id: string;
-  role_type: string;
-  description: string;
-  projects: {
-    title: string;
-  };
-}
+import { getItemPath, getProfilePath } from '../../lib/routes';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { useQueryParam } from '../../hooks/useQueryParam';
+import { Plus, Star, MessageCircle, Users, X, Inbox, UserPlus, Send, Clock, ListChecks, ChevronDown, ChevronUp } from 'lucide-react';
+import NewItemsBanner from '../NewItemsBanner';
+import FollowButton from '../FollowButton';
+import ReputationScore from '../ReputationScore';
+import ReportButton from '../moderation/ReportButton';
+import RolePostingModal from '../collaboration/RolePostingModal';
+import RoleApplicationModal from '../collaboration/RoleApplicationModal';
+import ApplicationsPanel from '../collaboration/ApplicationsPanel';
+import OpenRolesManager from '../collaboration/OpenRolesManager';
+import RatingHistogram from '../collaboration/RatingHistogram';
+import { getStageColor, projectStages } from '../collaboration/stages';
+import { ApplicationStatus, CollaboratorRequest, CollaboratorRequestStatus, Project, ProjectReview } from '../collaboration/types';
+
+const PROJECT_SELECT = '*, profiles(username, avatar_url, reputation), project_members(id, user_id, role_type, profiles(username, avatar_url))';
+const COLLABORATOR_REQUEST_SELECT = '*, projects(title, creator_id)';
 
 export default function CollaborationZone() {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [projects, setProjects] = useState<Project[]>([]);
+  const [pendingProjects, setPendingProjects] = useState<Project[]>([]);
   const [collaboratorRequests, setCollaboratorRequests] = useState<CollaboratorRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [showProjectForm, setShowProjectForm] = useState(false);
   const [selectedProject, setSelectedProject] = useState<string | null>(null);
   const [feedbackText, setFeedbackText] = useState('');
   const [rating, setRating] = useState(5);
+  const [myReviews, setMyReviews] = useState<Record<string, ProjectReview>>({});
+  const [expandedRatingsId, setExpandedRatingsId] = useState<string | null>(null);
+  const [myApplications, setMyApplications] = useState<Record<string, ApplicationStatus>>({});
+  const [postingRoleProjectId, setPostingRoleProjectId] = useState<string | null>(null);
+  const [applyingRequestId, setApplyingRequestId] = useState<string | null>(null);
+  const [showApplications, setShowApplications] = useState(false);
+  const [showRolesManager, setShowRolesManager] = useState(false);
+  const [statusParam, setRequestStatusFilter] = useQueryParam('status', 'open');
+  const [roleParam, setRoleFilter] = useQueryParam('role', '');
 
-  const stages = ['Idea', 'Prototype', 'Beta', 'Released'];
   const roles = ['Artist', 'Sound Designer', 'Coder', 'Writer'];
+  const requestStatusFilters = ['open', 'filled', 'all'] as const;
+  const requestStatusFilter: 'all' | CollaboratorRequestStatus = (requestStatusFilters as readonly string[]).includes(statusParam)
+    ? (statusParam as 'all' | CollaboratorRequestStatus)
+    : 'open';
+  const roleFilter = roles.includes(roleParam) ? roleParam : null;
 
   const [projectFormData, setProjectFormData] = useState({
     title: '',
@@ -52,11 +60,51 @@ export default function CollaborationZone() {
     loadCollaboratorRequests();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMyApplications = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('applications')
+          .select('request_id, status')
+          .eq('applicant_id', user.id);
+
+        if (error) throw error;
+        setMyApplications(Object.fromEntries((data || []).map((a) => [a.request_id, a.status])));
+      } catch (error) {
+        console.error('Error loading applications:', error);
+      }
+    };
+
+    loadMyApplications();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMyReviews = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('project_feedback')
+          .select('*')
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+        setMyReviews(Object.fromEntries((data || []).map((review) => [review.project_id, review])));
+      } catch (error) {
+        console.error('Error loading reviews:', error);
+      }
+    };
+
+    loadMyReviews();
+  }, [user]);
+
   const loadProjects = async () => {
     try {
       const { data, error } = await supabase
         .from('projects')
-        .select('*, profiles(username, avatar_url)')
+        .select(PROJECT_SELECT)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -72,7 +120,7 @@ export default function CollaborationZone() {
     try {
       const { data, error } = await supabase
         .from('collaborator_requests')
-        .select('*, projects(title)')
+        .select(COLLABORATOR_REQUEST_SELECT)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -82,83 +130,210 @@ export default function CollaborationZone() {
     }
   };
 
+  useRealtimeTable<Project>('projects', {
+    onInsert: async (row) => {
+      if (row.creator_id === user?.id) return;
+      try {
+        const { data, error } = await supabase
+          .from('projects')
+          .select(PROJECT_SELECT)
+          .eq('id', row.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          setPendingProjects((prev) => (prev.some((p) => p.id === data.id) ? prev : [data, ...prev]));
+        }
+      } catch (error) {
+        console.error('Error loading new project:', error);
+      }
+    },
+    onUpdate: (row) => {
+      setProjects((prev) => prev.map((project) => (project.id === row.id ? { ...project, ...row } : project)));
+    },
+    onDelete: (row) => {
+      setProjects((prev) => prev.filter((project) => project.id !== row.id));
+      setPendingProjects((prev) => prev.filter((project) => project.id !== row.id));
+    },
+  });
+
+  useRealtimeTable<CollaboratorRequest>('collaborator_requests', {
+    onInsert: async (row) => {
+      try {
+        const { data, error } = await supabase
+          .from('collaborator_requests')
+          .select(COLLABORATOR_REQUEST_SELECT)
+          .eq('id', row.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          setCollaboratorRequests((prev) => (prev.some((r) => r.id === data.id) ? prev : [data, ...prev]));
+        }
+      } catch (error) {
+        console.error('Error loading new collaborator request:', error);
+      }
+    },
+    onUpdate: (row) => {
+      setCollaboratorRequests((prev) => prev.map((request) => (request.id === row.id ? { ...request, ...row } : request)));
+    },
+    onDelete: (row) => {
+      setCollaboratorRequests((prev) => prev.filter((request) => request.id !== row.id));
+    },
+  });
+
+  const showPendingProjects = () => {
+    setProjects((prev) => [...pendingProjects, ...prev]);
+    setPendingProjects([]);
+  };
+
   const handleProjectSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('projects')
         .insert([
           {
             ...projectFormData,
             creator_id: user.id,
           },
-        ]);
+        ])
+        .select(PROJECT_SELECT)
+        .single();
 
       if (error) throw error;
 
       setProjectFormData({ title: '', description: '', stage: 'Idea' });
       setShowProjectForm(false);
-      loadProjects();
+      setProjects((prev) => [data, ...prev]);
     } catch (error) {
       console.error('Error creating project:', error);
     }
   };
 
+  const handlePostRole = async (roleType: string, description: string) => {
+    if (!postingRoleProjectId) return;
+
+    const { data, error } = await supabase
+      .from('collaborator_requests')
+      .insert([
+        {
+          project_id: postingRoleProjectId,
+          role_type: roleType,
+          description,
+        },
+      ])
+      .select(COLLABORATOR_REQUEST_SELECT)
+      .single();
+
+    if (error) throw error;
+    setCollaboratorRequests((prev) => (prev.some((r) => r.id === data.id) ? prev : [data, ...prev]));
+    setPostingRoleProjectId(null);
+  };
+
   const handleFeedbackSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !selectedProject) return;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('project_feedback')
-        .insert([
+        .upsert(
           {
             project_id: selectedProject,
             user_id: user.id,
             content: feedbackText,
             rating: rating,
           },
-        ]);
+          { onConflict: 'project_id,user_id' }
+        )
+        .select()
+        .single();
 
       if (error) throw error;
+      setMyReviews((prev) => ({ ...prev, [data.project_id]: data }));
 
-      const project = projects.find(p => p.id === selectedProject);
-      if (project) {
-        await supabase
-          .from('projects')
-          .update({
-            rating_sum: project.rating_sum + rating,
-            rating_count: project.rating_count + 1,
-          })
-          .eq('id', selectedProject);
-      }
+      // The aggregates are maintained by a trigger on project_feedback.
+      const { data: ratings, error: ratingsError } = await supabase
+        .from('projects')
+        .select('rating_sum, rating_count')
+        .eq('id', selectedProject)
+        .single();
+
+      if (ratingsError) throw ratingsError;
+      setProjects((prev) => prev.map((p) => (p.id === selectedProject ? { ...p, ...ratings } : p)));
 
-      setFeedbackText('');
-      setRating(5);
-      setSelectedProject(null);
-      loadProjects();
+      closeFeedbackForm();
     } catch (error) {
       console.error('Error submitting feedback:', error);
     }
   };
 
+  const openFeedbackForm = (projectId: string) => {
+    const review = myReviews[projectId];
+    setFeedbackText(review?.content ?? '');
+    setRating(review?.rating ?? 5);
+    setSelectedProject(projectId);
+  };
+
+  const closeFeedbackForm = () => {
+    setSelectedProject(null);
+    setFeedbackText('');
+    setRating(5);
+  };
+
   const getAverageRating = (project: Project) => {
     if (project.rating_count === 0) return 0;
     return (project.rating_sum / project.rating_count).toFixed(1);
   };
 
-  const getStageColor = (stage: string) => {
-    switch (stage) {
-      case 'Idea': return 'bg-gray-600/20 text-gray-400';
-      case 'Prototype': return 'bg-blue-600/20 text-blue-400';
-      case 'Beta': return 'bg-purple-600/20 text-purple-400';
-      case 'Released': return 'bg-green-600/20 text-green-400';
-      default: return 'bg-gray-600/20 text-gray-400';
+  const canApply = (request: CollaboratorRequest) => {
+    if (!user || request.projects.creator_id === user.id) return false;
+    const project = projects.find((p) => p.id === request.project_id);
+    return !project?.project_members.some((m) => m.user_id === user.id);
+  };
+
+  const getApplyButton = (request: CollaboratorRequest) => {
+    if (!canApply(request)) return null;
+
+    switch (myApplications[request.id]) {
+      case 'pending':
+        return (
+          <span className="flex items-center gap-1 text-xs bg-yellow-600/20 text-yellow-400 px-2 py-1 rounded">
+            <Clock size={12} />
+            Applied
+          </span>
+        );
+      case 'accepted':
+        return <span className="text-xs bg-green-600/20 text-green-400 px-2 py-1 rounded">Accepted</span>;
+      case 'declined':
+        return <span className="text-xs bg-red-600/20 text-red-400 px-2 py-1 rounded">Declined</span>;
+      default:
+        if (request.status !== 'open') return null;
+        return (
+          <button
+            onClick={() => setApplyingRequestId(request.id)}
+            className="flex items-center gap-1 text-xs bg-blue-600/20 text-blue-400 px-2 py-1 rounded hover:bg-blue-600/30 transition-colors"
+          >
+            <Send size={12} />
+            Apply
+          </button>
+        );
     }
   };
 
+  const postingRoleProject = projects.find((project) => project.id === postingRoleProjectId);
+  const applyingRequest = collaboratorRequests.find((request) => request.id === applyingRequestId);
+  const myRequests = collaboratorRequests.filter((request) => request.projects.creator_id === user?.id);
+  const statusFilteredRequests = requestStatusFilter === 'all'
+    ? collaboratorRequests
+    : collaboratorRequests.filter((request) => request.status === requestStatusFilter);
+  const filteredRequests = roleFilter
+    ? statusFilteredRequests.filter((request) => request.role_type === roleFilter)
+    : statusFilteredRequests;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -175,13 +350,29 @@ export default function CollaborationZone() {
             <h1 className="text-3xl font-bold mb-2">Collaboration & Feedback Zone</h1>
             <p className="text-gray-400">Share your projects and find talented collaborators</p>
           </div>
-          <button
-            onClick={() => setShowProjectForm(!showProjectForm)}
-            className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-3 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
-          >
-            {showProjectForm ? <X size={20} /> : <Plus size={20} />}
-            {showProjectForm ? 'Cancel' : 'Share Project'}
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowRolesManager(true)}
+              className="flex items-center gap-2 bg-gray-800 border border-gray-700 px-4 py-3 rounded-lg font-medium hover:bg-gray-700 transition-all"
+            >
+              <ListChecks size={20} />
+              My Roles
+            </button>
+            <button
+              onClick={() => setShowApplications(true)}
+              className="flex items-center gap-2 bg-gray-800 border border-gray-700 px-4 py-3 rounded-lg font-medium hover:bg-gray-700 transition-all"
+            >
+              <Inbox size={20} />
+              Applications
+            </button>
+            <button
+              onClick={() => setShowProjectForm(!showProjectForm)}
+              className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-3 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
+            >
+              {showProjectForm ? <X size={20} /> : <Plus size={20} />}
+              {showProjectForm ? 'Cancel' : 'Share Project'}
+            </button>
+          </div>
         </div>
 
         {showProjectForm && (
@@ -208,7 +399,7 @@ export default function CollaborationZone() {
                   className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white"
                   required
                 >
-                  {stages.map((stage) => (
+                  {projectStages.map((stage) => (
                     <option key={stage} value={stage}>
                       {stage}
                     </option>
@@ -237,6 +428,8 @@ export default function CollaborationZone() {
           </div>
         )}
 
+        <NewItemsBanner count={pendingProjects.length} label="project" onShow={showPendingProjects} />
+
         <div className="flex gap-6">
           <div className="flex-1">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -247,36 +440,108 @@ export default function CollaborationZone() {
                 >
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex items-center gap-2">
-                      <img
-                        src={project.profiles.avatar_url}
-                        alt={project.profiles.username}
-                        className="w-8 h-8 rounded-full"
-                      />
-                      <span className="text-sm text-gray-400">{project.profiles.username}</span>
+                      <Link to={getProfilePath(project.profiles.username)} className="shrink-0">
+                        <img
+                          src={project.profiles.avatar_url}
+                          alt={project.profiles.username}
+                          className="w-8 h-8 rounded-full"
+                        />
+                      </Link>
+                      <Link to={getProfilePath(project.profiles.username)} className="text-sm text-gray-400 hover:text-blue-400 transition-colors">{project.profiles.username}</Link>
+                      <ReputationScore points={project.profiles.reputation} />
+                      <FollowButton userId={project.creator_id} compact />
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`text-xs px-3 py-1 rounded font-medium ${getStageColor(project.stage)}`}>
+                        {project.stage}
+                      </span>
+                      <ReportButton contentType="project" contentId={project.id} authorId={project.creator_id} />
                     </div>
-                    <span className={`text-xs px-3 py-1 rounded font-medium ${getStageColor(project.stage)}`}>
-                      {project.stage}
-                    </span>
                   </div>
 
-                  <h3 className="text-xl font-semibold mb-3">{project.title}</h3>
+                  <h3
+                    onClick={() => navigate(getItemPath('project', project.id))}
+                    className="text-xl font-semibold mb-3 cursor-pointer hover:text-blue-400 transition-colors"
+                  >
+                    {project.title}
+                  </h3>
                   <p className="text-gray-400 text-sm mb-4 line-clamp-3">{project.description}</p>
 
-                  <div className="flex items-center gap-4 mb-4 pt-4 border-t border-gray-700">
-                    <div className="flex items-center gap-1">
+                  {project.project_members.length > 0 && (
+                    <div className="flex items-center gap-2 mb-4">
+                      <span className="text-xs text-gray-500">Team</span>
+                      <div className="flex -space-x-2">
+                        {project.project_members.map((member) => (
+                          <Link
+                            key={member.id}
+                            to={getProfilePath(member.profiles.username)}
+                            title={`${member.profiles.username} · ${member.role_type}`}
+                          >
+                            <img
+                              src={member.profiles.avatar_url}
+                              alt={member.profiles.username}
+                              className="w-7 h-7 rounded-full border-2 border-gray-800"
+                            />
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {collaboratorRequests.some((r) => r.project_id === project.id && r.status === 'open') && (
+                    <div className="space-y-2 mb-4">
+                      {collaboratorRequests
+                        .filter((r) => r.project_id === project.id && r.status === 'open')
+                        .map((request) => (
+                          <div key={request.id} className="flex items-center justify-between gap-2 p-2 bg-gray-900/50 rounded-lg">
+                            <div className="min-w-0">
+                              <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">
+                                {request.role_type}
+                              </span>
+                              <p className="text-xs text-gray-400 mt-1 truncate">{request.description}</p>
+                            </div>
+                            {getApplyButton(request)}
+                          </div>
+                        ))}
+                    </div>
+                  )}
+
+                  <div className="mb-4 pt-4 border-t border-gray-700">
+                    <button
+                      onClick={() => setExpandedRatingsId(expandedRatingsId === project.id ? null : project.id)}
+                      className="flex items-center gap-1 hover:text-blue-400 transition-colors"
+                    >
                       <Star className="text-yellow-400 fill-yellow-400" size={16} />
                       <span className="text-sm font-medium">{getAverageRating(project)}</span>
                       <span className="text-xs text-gray-400">({project.rating_count})</span>
-                    </div>
+                      {expandedRatingsId === project.id ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                    </button>
+                    {expandedRatingsId === project.id && (
+                      <div className="mt-3">
+                        <RatingHistogram projectId={project.id} ratingCount={project.rating_count} />
+                      </div>
+                    )}
                   </div>
 
-                  <button
-                    onClick={() => setSelectedProject(project.id)}
-                    className="w-full bg-blue-600/20 text-blue-400 py-2 px-4 rounded-lg hover:bg-blue-600/30 transition-all flex items-center justify-center gap-2"
-                  >
-                    <MessageCircle size={16} />
-                    Request Feedback
-                  </button>
+                  {user?.id === project.creator_id && (
+                    <button
+                      onClick={() => setPostingRoleProjectId(project.id)}
+                      className="w-full mb-2 bg-purple-600/20 text-purple-400 py-2 px-4 rounded-lg hover:bg-purple-600/30 transition-all flex items-center justify-center gap-2"
+                    >
+                      <UserPlus size={16} />
+                      Post a Role
+                    </button>
+                  )}
+
+                  {user?.id !== project.creator_id && (
+                    <button
+                      onClick={() => openFeedbackForm(project.id)}
+                      className="w-full bg-blue-600/20 text-blue-400 py-2 px-4 rounded-lg hover:bg-blue-600/30 transition-all flex items-center justify-center gap-2"
+                    >
+                      <MessageCircle size={16} />
+                      {myReviews[project.id] ? 'Edit Your Review' : 'Leave Feedback'}
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -291,17 +556,35 @@ export default function CollaborationZone() {
               <p className="text-sm text-gray-400 mb-4">
                 Looking for talented individuals to join your project?
               </p>
+              <div className="flex gap-2 mb-4">
+                {requestStatusFilters.map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setRequestStatusFilter(status)}
+                    className={`px-3 py-1 rounded-full text-sm capitalize transition-all ${
+                      requestStatusFilter === status
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {status}
+                  </button>
+                ))}
+              </div>
               <div className="space-y-3">
                 {roles.map((role) => {
-                  const count = collaboratorRequests.filter(r => r.role_type === role).length;
+                  const count = statusFilteredRequests.filter(r => r.role_type === role).length;
                   return (
                     <div
                       key={role}
-                      className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg hover:bg-gray-900 transition-colors cursor-pointer"
+                      onClick={() => setRoleFilter(roleFilter === role ? '' : role)}
+                      className={`flex items-center justify-between p-3 rounded-lg transition-colors cursor-pointer ${
+                        roleFilter === role ? 'bg-blue-600/20 ring-1 ring-blue-500/50' : 'bg-gray-900/50 hover:bg-gray-900'
+                      }`}
                     >
                       <span className="text-sm font-medium">{role}</span>
                       <span className="text-xs bg-blue-600/20 text-blue-400 px-2 py-1 rounded">
-                        {count} available
+                        {count} {requestStatusFilter === 'all' ? 'posted' : requestStatusFilter}
                       </span>
                     </div>
                   );
@@ -310,28 +593,92 @@ export default function CollaborationZone() {
             </div>
 
             <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
-              <h3 className="text-lg font-semibold mb-4">Recent Requests</h3>
-              <div className="space-y-3">
-                {collaboratorRequests.slice(0, 4).map((request) => (
-                  <div key={request.id} className="p-3 bg-gray-900/50 rounded-lg">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">
-                        {request.role_type}
-                      </span>
+              <h3 className="text-lg font-semibold mb-4">{roleFilter ? `${roleFilter} Roles` : 'Recent Requests'}</h3>
+              {filteredRequests.length === 0 ? (
+                <p className="text-sm text-gray-400">No roles match these filters.</p>
+              ) : (
+                <div className="space-y-3">
+                  {filteredRequests.slice(0, 6).map((request) => (
+                    <div key={request.id} className="p-3 bg-gray-900/50 rounded-lg">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-0.5 rounded">
+                            {request.role_type}
+                          </span>
+                          {request.status !== 'open' && (
+                            <span className="text-xs text-gray-500 capitalize">{request.status}</span>
+                          )}
+                        </div>
+                        {getApplyButton(request)}
+                      </div>
+                      <Link
+                        to={getItemPath('project', request.project_id)}
+                        className="block text-xs text-gray-400 hover:text-blue-400 transition-colors mb-1"
+                      >
+                        {request.projects.title}
+                      </Link>
+                      <p className="text-sm text-gray-300 line-clamp-2">{request.description}</p>
                     </div>
-                    <p className="text-sm text-gray-300 line-clamp-2">{request.description}</p>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </div>
           </aside>
         </div>
       </div>
 
+      {postingRoleProject && (
+        <RolePostingModal
+          project={postingRoleProject}
+          roles={roles}
+          onClose={() => setPostingRoleProjectId(null)}
+          onPost={handlePostRole}
+        />
+      )}
+
+      {applyingRequest && (
+        <RoleApplicationModal
+          request={applyingRequest}
+          onClose={() => setApplyingRequestId(null)}
+          onApplied={() => {
+            setMyApplications((prev) => ({ ...prev, [applyingRequest.id]: 'pending' }));
+            setApplyingRequestId(null);
+          }}
+        />
+      )}
+
+      {showRolesManager && (
+        <OpenRolesManager
+          requests={myRequests}
+          roles={roles}
+          onClose={() => setShowRolesManager(false)}
+          onUpdated={(updated) => {
+            setCollaboratorRequests((prev) => prev.map((request) => (request.id === updated.id ? updated : request)));
+          }}
+          onDeleted={(requestId) => {
+            setCollaboratorRequests((prev) => prev.filter((request) => request.id !== requestId));
+          }}
+        />
+      )}
+
+      {showApplications && (
+        <ApplicationsPanel
+          onClose={() => setShowApplications(false)}
+          onAnswered={loadProjects}
+          onWithdrawn={(requestId) => {
+            setMyApplications((prev) => {
+              const next = { ...prev };
+              delete next[requestId];
+              return next;
+            });
+          }}
+        />
+      )}
+
       {selectedProject && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
           <div className="bg-gray-800 rounded-xl p-6 max-w-md w-full border border-gray-700">
-            <h3 className="text-xl font-semibold mb-4">Submit Feedback</h3>
+            <h3 className="text-xl font-semibold mb-4">{myReviews[selectedProject] ? 'Edit Your Review' : 'Submit Feedback'}</h3>
             <form onSubmit={handleFeedbackSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">Rating</label>
@@ -366,11 +713,7 @@ export default function CollaborationZone() {
               <div className="flex gap-3">
                 <button
                   type="button"
-                  onClick={() => {
-                    setSelectedProject(null);
-                    setFeedbackText('');
-                    setRating(5);
-                  }}
+                  onClick={closeFeedbackForm}
                   className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg hover:bg-gray-600 transition-all"
                 >
                   Cancel
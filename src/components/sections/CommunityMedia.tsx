@@ -1,30 +1,32 @@
 import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { Plus, ThumbsUp, MessageCircle, Share2, TrendingUp, Award, X } from 'lucide-react';
-
-interface MediaPost {
-  id: string;
-  title: string;
-  content: string;
-  category: string;
-  upvotes: number;
-  view_count: number;
-  created_at: string;
-  author_id: string;
-  profiles: {
-    username: string;
-    avatar_url: string;
-    badges?: string[];
-  };
-}
+import { loadUserVotes, toggleVote, VoteValue } from '../../lib/votes';
+import { getItemPath, getProfilePath, sectionPaths } from '../../lib/routes';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { useQueryParam } from '../../hooks/useQueryParam';
+import { Plus, ThumbsUp, ThumbsDown, MessageCircle, Share2, TrendingUp, X } from 'lucide-react';
+import PostDetail from '../media/PostDetail';
+import BadgeChip from '../BadgeChip';
+import NewItemsBanner from '../NewItemsBanner';
+import FollowButton from '../FollowButton';
+import ReputationScore from '../ReputationScore';
+import { MediaPost } from '../media/types';
+
+const POST_SELECT = '*, profiles(username, avatar_url, badges, reputation), media_comments(count)';
 
 export default function CommunityMedia() {
   const { user } = useAuth();
+  const { id: selectedPostId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [posts, setPosts] = useState<MediaPost[]>([]);
+  const [pendingPosts, setPendingPosts] = useState<MediaPost[]>([]);
+  const [myVotes, setMyVotes] = useState<Record<string, VoteValue>>({});
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [selectedCategory, setSelectedCategory] = useState('All');
+  const [selectedCategory, setSelectedCategory] = useQueryParam('category', 'All');
 
   const categories = ['All', 'Reviews', 'Game News', 'Devlogs', 'Opinion'];
 
@@ -38,11 +40,18 @@ export default function CommunityMedia() {
     loadPosts();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    loadUserVotes(user.id, 'media_post')
+      .then(setMyVotes)
+      .catch((error) => console.error('Error loading votes:', error));
+  }, [user]);
+
   const loadPosts = async () => {
     try {
       const { data, error } = await supabase
         .from('media_posts')
-        .select('*, profiles(username, avatar_url, badges)')
+        .select(POST_SELECT)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -54,41 +63,120 @@ export default function CommunityMedia() {
     }
   };
 
+  const getCommentCount = (post: MediaPost) => post.media_comments[0]?.count ?? 0;
+
+  const fetchPost = async (postId: string): Promise<MediaPost | null> => {
+    const { data, error } = await supabase
+      .from('media_posts')
+      .select(POST_SELECT)
+      .eq('id', postId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  useRealtimeTable<MediaPost>('media_posts', {
+    onInsert: async (row) => {
+      if (row.author_id === user?.id) return;
+      try {
+        const post = await fetchPost(row.id);
+        if (post) {
+          setPendingPosts((prev) => (prev.some((p) => p.id === post.id) ? prev : [post, ...prev]));
+        }
+      } catch (error) {
+        console.error('Error loading new post:', error);
+      }
+    },
+    onUpdate: (row) => {
+      setPosts((prev) => prev.map((post) => (post.id === row.id ? { ...post, ...row } : post)));
+    },
+    onDelete: (row) => {
+      setPosts((prev) => prev.filter((post) => post.id !== row.id));
+      setPendingPosts((prev) => prev.filter((post) => post.id !== row.id));
+    },
+  });
+
+  const refreshCommentCounts = async (postIds: string[]) => {
+    if (postIds.length === 0) return;
+    try {
+      const { data, error } = await supabase
+        .from('media_posts')
+        .select('id, media_comments(count)')
+        .in('id', postIds);
+
+      if (error) throw error;
+      const counts = new Map<string, MediaPost['media_comments']>(
+        (data || []).map((row: Pick<MediaPost, 'id' | 'media_comments'>) => [row.id, row.media_comments])
+      );
+      setPosts((prev) => prev.map((post) => {
+        const mediaComments = counts.get(post.id);
+        return mediaComments ? { ...post, media_comments: mediaComments } : post;
+      }));
+    } catch (error) {
+      console.error('Error refreshing comment counts:', error);
+    }
+  };
+
+  // Delete events only carry the comment id, so a delete recounts the loaded posts at once.
+  useRealtimeTable<{ id: string; post_id: string }>('media_comments', {
+    onInsert: (row) => {
+      setPosts((prev) => prev.map((post) =>
+        post.id === row.post_id
+          ? { ...post, media_comments: [{ count: getCommentCount(post) + 1 }] }
+          : post
+      ));
+    },
+    onDelete: () => refreshCommentCounts(posts.map((post) => post.id)),
+  });
+
+  const showPendingPosts = () => {
+    setPosts((prev) => [...pendingPosts, ...prev]);
+    setPendingPosts([]);
+  };
+
+  const setSelectedPostId = (postId: string | null) => {
+    navigate({
+      pathname: postId ? getItemPath('media_post', postId) : sectionPaths.media,
+      search: location.search,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('media_posts')
         .insert([
           {
             ...formData,
             author_id: user.id,
           },
-        ]);
+        ])
+        .select(POST_SELECT)
+        .single();
 
       if (error) throw error;
 
       setFormData({ title: '', content: '', category: 'Game News' });
       setShowForm(false);
-      loadPosts();
+      setPosts((prev) => [data, ...prev]);
     } catch (error) {
       console.error('Error creating post:', error);
     }
   };
 
-  const handleUpvote = async (postId: string, currentUpvotes: number) => {
+  const handleVote = async (postId: string, value: 1 | -1) => {
     try {
-      const { error } = await supabase
-        .from('media_posts')
-        .update({ upvotes: currentUpvotes + 1 })
-        .eq('id', postId);
-
-      if (error) throw error;
-      loadPosts();
+      const { vote, upvotes, downvotes } = await toggleVote('media_post', postId, value);
+      setMyVotes((prev) => ({ ...prev, [postId]: vote }));
+      setPosts((prev) => prev.map((post) =>
+        post.id === postId ? { ...post, upvotes, downvotes } : post
+      ));
     } catch (error) {
-      console.error('Error upvoting:', error);
+      console.error('Error voting:', error);
     }
   };
 
@@ -98,6 +186,8 @@ export default function CommunityMedia() {
 
   const trendingPosts = [...posts].sort((a, b) => b.upvotes - a.upvotes).slice(0, 5);
 
+  const selectedPost = posts.find((post) => post.id === selectedPostId);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -176,6 +266,8 @@ export default function CommunityMedia() {
           </div>
         )}
 
+        <NewItemsBanner count={pendingPosts.length} label="post" onShow={showPendingPosts} />
+
         <div className="flex gap-6">
           <div className="flex-1">
             <div className="flex gap-2 mb-6 overflow-x-auto pb-2">
@@ -202,19 +294,20 @@ export default function CommunityMedia() {
                 >
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex items-center gap-3">
-                      <img
-                        src={post.profiles.avatar_url}
-                        alt={post.profiles.username}
-                        className="w-10 h-10 rounded-full"
-                      />
+                      <Link to={getProfilePath(post.profiles.username)} className="shrink-0">
+                        <img
+                          src={post.profiles.avatar_url}
+                          alt={post.profiles.username}
+                          className="w-10 h-10 rounded-full"
+                        />
+                      </Link>
                       <div>
                         <div className="flex items-center gap-2">
-                          <span className="font-medium">{post.profiles.username}</span>
+                          <Link to={getProfilePath(post.profiles.username)} className="font-medium hover:text-blue-400 transition-colors">{post.profiles.username}</Link>
+                          <ReputationScore points={post.profiles.reputation} />
+                          <FollowButton userId={post.author_id} compact />
                           {post.profiles.badges && post.profiles.badges.includes('Trusted Editor') && (
-                            <span className="flex items-center gap-1 text-xs bg-yellow-600/20 text-yellow-400 px-2 py-0.5 rounded">
-                              <Award size={12} />
-                              Trusted Editor
-                            </span>
+                            <BadgeChip name="Trusted Editor" size="sm" />
                           )}
                         </div>
                         <span className="text-xs text-gray-400">
@@ -233,21 +326,41 @@ export default function CommunityMedia() {
                   <div className="flex items-center justify-between pt-4 border-t border-gray-700">
                     <div className="flex items-center gap-4">
                       <button
-                        onClick={() => handleUpvote(post.id, post.upvotes)}
-                        className="flex items-center gap-2 text-gray-400 hover:text-blue-400 transition-colors"
+                        onClick={() => handleVote(post.id, 1)}
+                        disabled={post.author_id === user?.id}
+                        className={`flex items-center gap-2 transition-colors disabled:cursor-not-allowed ${
+                          myVotes[post.id] === 1 ? 'text-blue-400' : 'text-gray-400 enabled:hover:text-blue-400'
+                        }`}
+                        title={post.author_id === user?.id ? "You can't vote on your own post" : myVotes[post.id] === 1 ? 'Remove upvote' : 'Upvote'}
                       >
-                        <ThumbsUp size={18} />
+                        <ThumbsUp size={18} className={myVotes[post.id] === 1 ? 'fill-blue-400/30' : ''} />
                         <span>{post.upvotes}</span>
                       </button>
-                      <button className="flex items-center gap-2 text-gray-400 hover:text-blue-400 transition-colors">
+                      <button
+                        onClick={() => handleVote(post.id, -1)}
+                        disabled={post.author_id === user?.id}
+                        className={`flex items-center gap-2 transition-colors disabled:cursor-not-allowed ${
+                          myVotes[post.id] === -1 ? 'text-red-400' : 'text-gray-400 enabled:hover:text-red-400'
+                        }`}
+                        title={post.author_id === user?.id ? "You can't vote on your own post" : myVotes[post.id] === -1 ? 'Remove downvote' : 'Downvote'}
+                      >
+                        <ThumbsDown size={18} className={myVotes[post.id] === -1 ? 'fill-red-400/30' : ''} />
+                      </button>
+                      <button
+                        onClick={() => setSelectedPostId(post.id)}
+                        className="flex items-center gap-2 text-gray-400 hover:text-blue-400 transition-colors"
+                      >
                         <MessageCircle size={18} />
-                        <span>0</span>
+                        <span>{getCommentCount(post)}</span>
                       </button>
                       <button className="flex items-center gap-2 text-gray-400 hover:text-blue-400 transition-colors">
                         <Share2 size={18} />
                       </button>
                     </div>
-                    <button className="text-sm text-blue-400 hover:text-blue-300">
+                    <button
+                      onClick={() => setSelectedPostId(post.id)}
+                      className="text-sm text-blue-400 hover:text-blue-300"
+                    >
                       Read More →
                     </button>
                   </div>
@@ -264,7 +377,11 @@ export default function CommunityMedia() {
               </div>
               <div className="space-y-3">
                 {trendingPosts.map((post, index) => (
-                  <div key={post.id} className="flex gap-3 group cursor-pointer">
+                  <div
+                    key={post.id}
+                    onClick={() => setSelectedPostId(post.id)}
+                    className="flex gap-3 group cursor-pointer"
+                  >
                     <span className="text-2xl font-bold text-gray-600">
                       {index + 1}
                     </span>
@@ -275,7 +392,13 @@ export default function CommunityMedia() {
                       <div className="flex items-center gap-2 mt-1">
                         <span className="text-xs text-gray-400">{post.upvotes} upvotes</span>
                         <span className="text-xs text-gray-600">•</span>
-                        <span className="text-xs text-gray-400">{post.profiles.username}</span>
+                        <Link
+                          to={getProfilePath(post.profiles.username)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-xs text-gray-400 hover:text-blue-400 transition-colors"
+                        >
+                          {post.profiles.username}
+                        </Link>
                       </div>
                     </div>
                   </div>
@@ -285,6 +408,13 @@ export default function CommunityMedia() {
           </aside>
         </div>
       </div>
+
+      {selectedPost && (
+        <PostDetail
+          post={selectedPost}
+          onClose={() => setSelectedPostId(null)}
+        />
+      )}
     </div>
   );
 }
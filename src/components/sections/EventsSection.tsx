@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { getItemPath } from '../../lib/routes';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { useQueryParam } from '../../hooks/useQueryParam';
 import { Plus, Calendar, MapPin, Globe, Search, X, ExternalLink } from 'lucide-react';
+import NewItemsBanner from '../NewItemsBanner';
+import ReportButton from '../moderation/ReportButton';
+
+const EVENT_SELECT = '*, profiles(username, avatar_url)';
 
 interface Event {
   id: string;
@@ -23,12 +31,16 @@ interface Event {
 
 export default function EventsSection() {
   const { user } = useAuth();
+  const { id: focusedEventId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [events, setEvents] = useState<Event[]>([]);
+  const [pendingEvents, setPendingEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [showRegistration, setShowRegistration] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filterType, setFilterType] = useState('All');
+  const [searchQuery, setSearchQuery] = useQueryParam('q', '');
+  const [filterType, setFilterType] = useQueryParam('type', 'All');
 
   const eventTypes = ['All', 'Tournament', 'Hackathon', 'CSR Challenge'];
 
@@ -49,11 +61,16 @@ export default function EventsSection() {
     loadEvents();
   }, []);
 
+  useEffect(() => {
+    if (loading || !focusedEventId) return;
+    document.getElementById(`event-${focusedEventId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, focusedEventId]);
+
   const loadEvents = async () => {
     try {
       const { data, error } = await supabase
         .from('events')
-        .select('*, profiles(username, avatar_url)')
+        .select(EVENT_SELECT)
         .order('event_date', { ascending: true });
 
       if (error) throw error;
@@ -65,19 +82,58 @@ export default function EventsSection() {
     }
   };
 
+  const byEventDate = (a: Event, b: Event) =>
+    new Date(a.event_date).getTime() - new Date(b.event_date).getTime();
+
+  useRealtimeTable<Event>('events', {
+    onInsert: async (row) => {
+      if (row.organizer_id === user?.id) return;
+      try {
+        const { data, error } = await supabase
+          .from('events')
+          .select(EVENT_SELECT)
+          .eq('id', row.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          setPendingEvents((prev) => (prev.some((e) => e.id === data.id) ? prev : [data, ...prev]));
+        }
+      } catch (error) {
+        console.error('Error loading new event:', error);
+      }
+    },
+    onUpdate: (row) => {
+      setEvents((prev) =>
+        prev.map((event) => (event.id === row.id ? { ...event, ...row } : event)).sort(byEventDate)
+      );
+    },
+    onDelete: (row) => {
+      setEvents((prev) => prev.filter((event) => event.id !== row.id));
+      setPendingEvents((prev) => prev.filter((event) => event.id !== row.id));
+    },
+  });
+
+  const showPendingEvents = () => {
+    setEvents((prev) => [...prev, ...pendingEvents].sort(byEventDate));
+    setPendingEvents([]);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('events')
         .insert([
           {
             ...formData,
             organizer_id: user.id,
           },
-        ]);
+        ])
+        .select(EVENT_SELECT)
+        .single();
 
       if (error) throw error;
 
@@ -92,7 +148,7 @@ export default function EventsSection() {
         tags: [],
       });
       setShowForm(false);
-      loadEvents();
+      setEvents((prev) => [...prev, data].sort(byEventDate));
     } catch (error) {
       console.error('Error creating event:', error);
     }
@@ -289,25 +345,38 @@ export default function EventsSection() {
         </div>
       </div>
 
+      <NewItemsBanner count={pendingEvents.length} label="event" onShow={showPendingEvents} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredEvents.map((event) => (
           <div
             key={event.id}
-            className="bg-gray-800 rounded-xl p-6 border border-gray-700 hover:border-blue-500/50 transition-all hover:shadow-lg hover:shadow-blue-500/10"
+            id={`event-${event.id}`}
+            className={`bg-gray-800 rounded-xl p-6 border transition-all hover:shadow-lg hover:shadow-blue-500/10 ${
+              event.id === focusedEventId ? 'border-blue-500 ring-2 ring-blue-500/40' : 'border-gray-700 hover:border-blue-500/50'
+            }`}
           >
             <div className="flex items-start justify-between mb-3">
               <span className="text-xs bg-purple-600/20 text-purple-400 px-3 py-1 rounded font-medium">
                 {event.event_type}
               </span>
-              {event.is_online && (
-                <div className="flex items-center gap-1 text-xs text-blue-400">
-                  <Globe size={14} />
-                  Online
-                </div>
-              )}
+              <div className="flex items-center gap-3">
+                {event.is_online && (
+                  <div className="flex items-center gap-1 text-xs text-blue-400">
+                    <Globe size={14} />
+                    Online
+                  </div>
+                )}
+                <ReportButton contentType="event" contentId={event.id} authorId={event.organizer_id} />
+              </div>
             </div>
 
-            <h3 className="text-xl font-semibold mb-3">{event.title}</h3>
+            <h3
+              onClick={() => navigate({ pathname: getItemPath('event', event.id), search: location.search })}
+              className="text-xl font-semibold mb-3 cursor-pointer hover:text-blue-400 transition-colors"
+            >
+              {event.title}
+            </h3>
             <p className="text-gray-400 text-sm mb-4 line-clamp-2">{event.description}</p>
 
             <div className="space-y-2 mb-4">
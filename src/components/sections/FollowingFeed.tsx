@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useFollows } from '../../contexts/followContext';
+import { FEED_PAGE_SIZE, FeedItem, FeedItemType, loadFollowingFeed } from '../../lib/follows';
+import { LeaderboardEntry, loadLeaderboard } from '../../lib/reputation';
+import { getItemPath, getProfilePath } from '../../lib/routes';
+import { Lightbulb, Newspaper, Trophy, Users, Calendar, Rss } from 'lucide-react';
+import FollowButton from '../FollowButton';
+import ReputationScore from '../ReputationScore';
+
+const itemTypes: Record<FeedItemType, { label: string; icon: typeof Lightbulb; color: string }> = {
+  game_idea: { label: 'Game Idea', icon: Lightbulb, color: 'text-yellow-400' },
+  media_post: { label: 'Media Post', icon: Newspaper, color: 'text-purple-400' },
+  project: { label: 'Project', icon: Users, color: 'text-green-400' },
+  event: { label: 'Event', icon: Trophy, color: 'text-blue-400' },
+};
+
+const SUGGESTION_COUNT = 5;
+
+export default function FollowingFeed() {
+  const { user } = useAuth();
+  const { followingIds } = useFollows();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [suggestions, setSuggestions] = useState<LeaderboardEntry[]>([]);
+
+  // Reload from the top whenever the set of followed creators changes.
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    loadFollowingFeed()
+      .then((data) => {
+        if (cancelled) return;
+        setItems(data);
+        setHasMore(data.length === FEED_PAGE_SIZE);
+      })
+      .catch((error) => console.error('Error loading feed:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [followingIds]);
+
+  useEffect(() => {
+    loadLeaderboard('all', SUGGESTION_COUNT + 10)
+      .then(setSuggestions)
+      .catch((error) => console.error('Error loading suggestions:', error));
+  }, []);
+
+  const loadMore = async () => {
+    const last = items[items.length - 1];
+    if (!last) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await loadFollowingFeed({ created_at: last.created_at, id: last.id });
+      setItems((prev) => [...prev, ...data]);
+      setHasMore(data.length === FEED_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const suggestedCreators = suggestions
+    .filter((entry) => entry.user_id !== user?.id && !followingIds.has(entry.user_id))
+    .slice(0, SUGGESTION_COUNT);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Following</h1>
+          <p className="text-gray-400">The latest from creators you follow</p>
+        </div>
+      </div>
+
+      <div className="flex gap-6">
+        <div className="flex-1 space-y-4">
+          {loading ? (
+            <div className="text-gray-400">Loading...</div>
+          ) : items.length === 0 ? (
+            <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center">
+              <Rss className="mx-auto text-gray-500 mb-3" size={32} />
+              <p className="text-gray-300 font-medium mb-1">Nothing here yet</p>
+              <p className="text-sm text-gray-400">
+                Follow creators from their profiles or cards and their ideas, posts, projects and events show up here.
+              </p>
+            </div>
+          ) : (
+            <>
+              {items.map((item) => {
+                const type = itemTypes[item.item_type];
+                const Icon = type.icon;
+                return (
+                  <div
+                    key={`${item.item_type}-${item.id}`}
+                    onClick={() => navigate(getItemPath(item.item_type, item.id))}
+                    className="bg-gray-800 rounded-xl p-6 border border-gray-700 hover:border-blue-500/50 transition-all cursor-pointer"
+                  >
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex items-center gap-2">
+                        <Link
+                          to={getProfilePath(item.author_username)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="shrink-0"
+                        >
+                          <img src={item.author_avatar_url} alt={item.author_username} className="w-8 h-8 rounded-full" />
+                        </Link>
+                        <Link
+                          to={getProfilePath(item.author_username)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-sm font-medium hover:text-blue-400 transition-colors"
+                        >
+                          {item.author_username}
+                        </Link>
+                        <ReputationScore points={item.author_reputation} />
+                        <span className="text-xs text-gray-500">
+                          {new Date(item.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <span className={`flex items-center gap-1 text-xs ${type.color}`}>
+                        <Icon size={14} />
+                        {type.label}
+                      </span>
+                    </div>
+
+                    <h3 className="text-lg font-semibold mb-1">{item.title}</h3>
+                    <p className="text-sm text-gray-400 line-clamp-2 mb-3">{item.summary}</p>
+
+                    <div className="flex items-center gap-3 text-xs text-gray-400">
+                      <span className="bg-gray-700 text-gray-300 px-2 py-1 rounded">{item.label}</span>
+                      {item.event_date && (
+                        <span className="flex items-center gap-1">
+                          <Calendar size={12} />
+                          {new Date(item.event_date).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {hasMore && (
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="w-full bg-gray-800 border border-gray-700 text-gray-300 py-3 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        <aside className="w-80">
+          <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+            <h3 className="text-lg font-semibold mb-4">Creators to follow</h3>
+            {suggestedCreators.length === 0 ? (
+              <p className="text-sm text-gray-400">You're following all of our top creators.</p>
+            ) : (
+              <div className="space-y-3">
+                {suggestedCreators.map((entry) => (
+                  <div key={entry.user_id} className="flex items-center gap-3">
+                    <Link to={getProfilePath(entry.username)} className="shrink-0">
+                      <img src={entry.avatar_url} alt={entry.username} className="w-8 h-8 rounded-full" />
+                    </Link>
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        to={getProfilePath(entry.username)}
+                        className="block text-sm font-medium truncate hover:text-blue-400 transition-colors"
+                      >
+                        {entry.username}
+                      </Link>
+                      <ReputationScore points={entry.reputation} />
+                    </div>
+                    <FollowButton userId={entry.user_id} compact />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
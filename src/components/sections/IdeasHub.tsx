@@ -1,31 +1,40 @@
 import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { Plus, ThumbsUp, MessageCircle, Eye, FileText, X } from 'lucide-react';
-
-interface GameIdea {
-  id: string;
-  title: string;
-  genre: string;
-  category: string;
-  summary: string;
-  tags: string[];
-  upvotes: number;
-  view_count: number;
-  created_at: string;
-  creator_id: string;
-  profiles: {
-    username: string;
-    avatar_url: string;
-  };
-}
+import { loadUserVotes, toggleVote, VoteValue } from '../../lib/votes';
+import { saveIdeaAttachment } from '../../lib/ideaAttachments';
+import { deleteIdeaFile, uploadIdeaFile } from '../../lib/storage';
+import { normalizeWebLink } from '../../lib/links';
+import { getItemPath, getProfilePath, sectionPaths } from '../../lib/routes';
+import { useRealtimeTable } from '../../hooks/useRealtimeTable';
+import { useQueryParam } from '../../hooks/useQueryParam';
+import { Plus, ThumbsUp, ThumbsDown, MessageCircle, Eye, FileText, X, Inbox, Clock, Upload } from 'lucide-react';
+import IdeaDetail from '../ideas/IdeaDetail';
+import DemoRequestModal from '../ideas/DemoRequestModal';
+import DemoRequestsPanel from '../ideas/DemoRequestsPanel';
+import IdeaAttachmentLink from '../ideas/IdeaAttachmentLink';
+import NewItemsBanner from '../NewItemsBanner';
+import FollowButton from '../FollowButton';
+import ReputationScore from '../ReputationScore';
+import { GameIdea, DemoRequestStatus } from '../ideas/types';
+
+const IDEA_SELECT = '*, profiles(username, avatar_url, reputation), idea_comments(count)';
 
 export default function IdeasHub() {
-  const { user, profile } = useAuth();
+  const { user } = useAuth();
+  const { id: selectedIdeaId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [ideas, setIdeas] = useState<GameIdea[]>([]);
+  const [pendingIdeas, setPendingIdeas] = useState<GameIdea[]>([]);
+  const [myVotes, setMyVotes] = useState<Record<string, VoteValue>>({});
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
-  const [selectedCategoryFilter, setSelectedCategoryFilter] = useState('All');
+  const [selectedCategoryFilter, setSelectedCategoryFilter] = useQueryParam('category', 'All');
+  const [myDemoRequests, setMyDemoRequests] = useState<Record<string, DemoRequestStatus>>({});
+  const [requestingIdeaId, setRequestingIdeaId] = useState<string | null>(null);
+  const [showDemoRequests, setShowDemoRequests] = useState(false);
 
   const genres = ['Action', 'RPG', 'Strategy', 'Puzzle', 'Adventure', 'Horror', 'Simulation', 'Sports'];
   const categories = ['Story', 'Prototype', 'Element'];
@@ -38,16 +47,46 @@ export default function IdeasHub() {
     summary: '',
     tags: [] as string[],
   });
+  const [demoUrl, setDemoUrl] = useState('');
+  const [demoFile, setDemoFile] = useState<File | null>(null);
+  const [formError, setFormError] = useState('');
 
   useEffect(() => {
     loadIdeas();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    loadUserVotes(user.id, 'game_idea')
+      .then(setMyVotes)
+      .catch((error) => console.error('Error loading votes:', error));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMyDemoRequests = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('demo_requests')
+          .select('idea_id, status')
+          .eq('requester_id', user.id);
+
+        if (error) throw error;
+        setMyDemoRequests(Object.fromEntries((data || []).map((r) => [r.idea_id, r.status])));
+      } catch (error) {
+        console.error('Error loading demo requests:', error);
+      }
+    };
+
+    loadMyDemoRequests();
+  }, [user]);
+
   const loadIdeas = async () => {
     try {
       const { data, error } = await supabase
         .from('game_ideas')
-        .select('*, profiles(username, avatar_url)')
+        .select(IDEA_SELECT)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -59,41 +98,205 @@ export default function IdeasHub() {
     }
   };
 
+  const getCommentCount = (idea: GameIdea) => idea.idea_comments[0]?.count ?? 0;
+
+  const fetchIdea = async (ideaId: string): Promise<GameIdea | null> => {
+    const { data, error } = await supabase
+      .from('game_ideas')
+      .select(IDEA_SELECT)
+      .eq('id', ideaId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // New ideas from others wait behind a banner so the grid doesn't jump while reading.
+  useRealtimeTable<GameIdea>('game_ideas', {
+    onInsert: async (row) => {
+      if (row.creator_id === user?.id) return;
+      try {
+        const idea = await fetchIdea(row.id);
+        if (idea) {
+          setPendingIdeas((prev) => (prev.some((i) => i.id === idea.id) ? prev : [idea, ...prev]));
+        }
+      } catch (error) {
+        console.error('Error loading new idea:', error);
+      }
+    },
+    onUpdate: (row) => {
+      setIdeas((prev) => prev.map((idea) => (idea.id === row.id ? { ...idea, ...row } : idea)));
+    },
+    onDelete: (row) => {
+      setIdeas((prev) => prev.filter((idea) => idea.id !== row.id));
+      setPendingIdeas((prev) => prev.filter((idea) => idea.id !== row.id));
+    },
+  });
+
+  const refreshCommentCounts = async (ideaIds: string[]) => {
+    if (ideaIds.length === 0) return;
+    try {
+      const { data, error } = await supabase
+        .from('game_ideas')
+        .select('id, idea_comments(count)')
+        .in('id', ideaIds);
+
+      if (error) throw error;
+      const counts = new Map<string, GameIdea['idea_comments']>(
+        (data || []).map((row: Pick<GameIdea, 'id' | 'idea_comments'>) => [row.id, row.idea_comments])
+      );
+      setIdeas((prev) => prev.map((idea) => {
+        const ideaComments = counts.get(idea.id);
+        return ideaComments ? { ...idea, idea_comments: ideaComments } : idea;
+      }));
+    } catch (error) {
+      console.error('Error refreshing comment counts:', error);
+    }
+  };
+
+  // Delete events only carry the comment id, so a delete recounts the loaded ideas at once.
+  useRealtimeTable<{ id: string; idea_id: string }>('idea_comments', {
+    onInsert: (row) => {
+      setIdeas((prev) => prev.map((idea) =>
+        idea.id === row.idea_id
+          ? { ...idea, idea_comments: [{ count: getCommentCount(idea) + 1 }] }
+          : idea
+      ));
+    },
+    onDelete: () => refreshCommentCounts(ideas.map((idea) => idea.id)),
+  });
+
+  const showPendingIdeas = () => {
+    setIdeas((prev) => [...pendingIdeas, ...prev]);
+    setPendingIdeas([]);
+  };
+
+  const setSelectedIdeaId = (ideaId: string | null) => {
+    navigate({
+      pathname: ideaId ? getItemPath('game_idea', ideaId) : sectionPaths.ideas,
+      search: location.search,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
+    const demoLink = !demoFile && demoUrl.trim() ? normalizeWebLink(demoUrl) : null;
+    if (!demoFile && demoUrl.trim() && !demoLink) {
+      setFormError('Demo links must be web addresses starting with http:// or https://.');
+      return;
+    }
+
+    setFormError('');
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('game_ideas')
         .insert([
           {
             ...formData,
             creator_id: user.id,
           },
-        ]);
+        ])
+        .select(IDEA_SELECT)
+        .single();
 
       if (error) throw error;
 
+      // The file's folder is named after the idea, so the idea has to exist first. If the
+      // attachment can't be saved the idea is removed again, letting the form be resubmitted.
+      let uploadedPath: string | null = null;
+      try {
+        if (demoFile) {
+          const { path, fileName } = await uploadIdeaFile(demoFile, user.id, data.id);
+          uploadedPath = path;
+          await saveIdeaAttachment(data.id, { storagePath: path, fileName });
+        } else if (demoLink) {
+          await saveIdeaAttachment(data.id, { fileUrl: demoLink });
+        }
+      } catch (attachmentError) {
+        if (uploadedPath) await deleteIdeaFile(uploadedPath).catch(() => undefined);
+        await supabase.from('game_ideas').delete().eq('id', data.id);
+        setFormError('Your demo could not be attached, so the idea was not published. Please try again.');
+        console.error('Error attaching demo:', attachmentError);
+        return;
+      }
+
       setFormData({ title: '', genre: '', category: 'Story', summary: '', tags: [] });
+      setDemoUrl('');
+      setDemoFile(null);
       setShowForm(false);
-      loadIdeas();
+      setIdeas((prev) => [data, ...prev]);
     } catch (error) {
       console.error('Error creating idea:', error);
+      setFormError('Could not publish your idea. Please try again.');
     }
   };
 
-  const handleUpvote = async (ideaId: string, currentUpvotes: number) => {
+  const handleVote = async (ideaId: string, value: 1 | -1) => {
     try {
-      const { error } = await supabase
-        .from('game_ideas')
-        .update({ upvotes: currentUpvotes + 1 })
-        .eq('id', ideaId);
-
-      if (error) throw error;
-      loadIdeas();
+      const { vote, upvotes, downvotes } = await toggleVote('game_idea', ideaId, value);
+      setMyVotes((prev) => ({ ...prev, [ideaId]: vote }));
+      setIdeas((prev) => prev.map((idea) =>
+        idea.id === ideaId ? { ...idea, upvotes, downvotes } : idea
+      ));
     } catch (error) {
-      console.error('Error upvoting:', error);
+      console.error('Error voting:', error);
+    }
+  };
+
+  const renderDemoButton = (idea: GameIdea) => {
+    if (idea.creator_id === user?.id) {
+      return (
+        <IdeaAttachmentLink
+          ideaId={idea.id}
+          missingMessage="No demo file has been attached to this idea yet."
+          className="flex items-center gap-2 text-sm bg-gray-700 text-gray-300 px-3 py-1 rounded hover:bg-gray-600 transition-colors"
+        >
+          Your Demo
+        </IdeaAttachmentLink>
+      );
+    }
+
+    switch (myDemoRequests[idea.id]) {
+      case 'pending':
+        return (
+          <span className="flex items-center gap-2 text-sm bg-yellow-600/20 text-yellow-400 px-3 py-1 rounded">
+            <Clock size={14} />
+            Requested
+          </span>
+        );
+      case 'approved':
+        return (
+          <IdeaAttachmentLink
+            ideaId={idea.id}
+            missingMessage="No demo file has been attached to this idea yet."
+            className="flex items-center gap-2 text-sm bg-green-600/20 text-green-400 px-3 py-1 rounded hover:bg-green-600/30 transition-colors"
+          >
+            Open Demo
+          </IdeaAttachmentLink>
+        );
+      case 'rejected':
+        return (
+          <button
+            onClick={() => setRequestingIdeaId(idea.id)}
+            className="flex items-center gap-2 text-sm bg-red-600/20 text-red-400 px-3 py-1 rounded hover:bg-red-600/30 transition-colors"
+            title="Your request was declined. Click to ask again."
+          >
+            <FileText size={14} />
+            Declined · Ask Again
+          </button>
+        );
+      default:
+        return (
+          <button
+            onClick={() => setRequestingIdeaId(idea.id)}
+            className="flex items-center gap-2 text-sm bg-blue-600/20 text-blue-400 px-3 py-1 rounded hover:bg-blue-600/30 transition-colors"
+          >
+            <FileText size={14} />
+            Request Demo
+          </button>
+        );
     }
   };
 
@@ -123,6 +326,9 @@ export default function IdeasHub() {
     ? ideas
     : ideas.filter((idea) => idea.category === selectedCategoryFilter);
 
+  const selectedIdea = ideas.find((idea) => idea.id === selectedIdeaId);
+  const requestingIdea = ideas.find((idea) => idea.id === requestingIdeaId);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -138,13 +344,22 @@ export default function IdeasHub() {
           <h1 className="text-3xl font-bold mb-2">Idea & Storyline Hub</h1>
           <p className="text-gray-400">Share your game concepts and discover inspiring ideas</p>
         </div>
-        <button
-          onClick={() => setShowForm(!showForm)}
-          className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-3 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
-        >
-          {showForm ? <X size={20} /> : <Plus size={20} />}
-          {showForm ? 'Cancel' : 'Share Idea'}
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowDemoRequests(true)}
+            className="flex items-center gap-2 bg-gray-800 border border-gray-700 px-4 py-3 rounded-lg font-medium hover:bg-gray-700 transition-all"
+          >
+            <Inbox size={20} />
+            Demo Requests
+          </button>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-3 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
+          >
+            {showForm ? <X size={20} /> : <Plus size={20} />}
+            {showForm ? 'Cancel' : 'Share Idea'}
+          </button>
+        </div>
       </div>
 
       {showForm && (
@@ -209,6 +424,30 @@ export default function IdeasHub() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Demo or Pitch Deck (optional)</label>
+              <p className="text-xs text-gray-500 mb-2">Kept private and only shared with users whose demo request you approve.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input
+                  type="url"
+                  value={demoUrl}
+                  onChange={(e) => setDemoUrl(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-blue-500 text-white disabled:opacity-50"
+                  placeholder="https://..."
+                  disabled={!!demoFile}
+                />
+                <label className="flex items-center gap-2 px-4 py-2 bg-gray-900 border border-dashed border-gray-700 rounded-lg cursor-pointer hover:border-blue-500 transition-colors text-sm text-gray-300">
+                  <Upload size={16} className="text-blue-400 shrink-0" />
+                  <span className="truncate">{demoFile ? demoFile.name : 'Or upload a file'}</span>
+                  <input
+                    type="file"
+                    onChange={(e) => setDemoFile(e.target.files?.[0] ?? null)}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">Tags</label>
               <div className="flex flex-wrap gap-2">
@@ -229,6 +468,12 @@ export default function IdeasHub() {
               </div>
             </div>
 
+            {formError && (
+              <div className="bg-red-500/10 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+                {formError}
+              </div>
+            )}
+
             <button
               type="submit"
               className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all"
@@ -255,6 +500,8 @@ export default function IdeasHub() {
         ))}
       </div>
 
+      <NewItemsBanner count={pendingIdeas.length} label="idea" onShow={showPendingIdeas} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredIdeas.map((idea) => (
           <div
@@ -263,12 +510,16 @@ export default function IdeasHub() {
           >
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center gap-2">
-                <img
-                  src={idea.profiles.avatar_url}
-                  alt={idea.profiles.username}
-                  className="w-8 h-8 rounded-full"
-                />
-                <span className="text-sm text-gray-400">{idea.profiles.username}</span>
+                <Link to={getProfilePath(idea.profiles.username)} className="shrink-0">
+                  <img
+                    src={idea.profiles.avatar_url}
+                    alt={idea.profiles.username}
+                    className="w-8 h-8 rounded-full"
+                  />
+                </Link>
+                <Link to={getProfilePath(idea.profiles.username)} className="text-sm text-gray-400 hover:text-blue-400 transition-colors">{idea.profiles.username}</Link>
+                <ReputationScore points={idea.profiles.reputation} />
+                <FollowButton userId={idea.creator_id} compact />
               </div>
               <div className="flex flex-col gap-1 items-end">
                 <span className="text-xs bg-purple-600/20 text-purple-400 px-2 py-1 rounded">
@@ -280,7 +531,12 @@ export default function IdeasHub() {
               </div>
             </div>
 
-            <h3 className="text-xl font-semibold mb-3">{idea.title}</h3>
+            <h3
+              onClick={() => setSelectedIdeaId(idea.id)}
+              className="text-xl font-semibold mb-3 cursor-pointer hover:text-blue-400 transition-colors"
+            >
+              {idea.title}
+            </h3>
             <p className="text-gray-400 text-sm mb-4 line-clamp-3">{idea.summary}</p>
 
             <div className="flex flex-wrap gap-2 mb-4">
@@ -294,25 +550,74 @@ export default function IdeasHub() {
             <div className="flex items-center justify-between pt-4 border-t border-gray-700">
               <div className="flex items-center gap-4">
                 <button
-                  onClick={() => handleUpvote(idea.id, idea.upvotes)}
-                  className="flex items-center gap-1 text-gray-400 hover:text-blue-400 transition-colors"
+                  onClick={() => handleVote(idea.id, 1)}
+                  disabled={idea.creator_id === user?.id}
+                  className={`flex items-center gap-1 transition-colors disabled:cursor-not-allowed ${
+                    myVotes[idea.id] === 1 ? 'text-blue-400' : 'text-gray-400 enabled:hover:text-blue-400'
+                  }`}
+                  title={idea.creator_id === user?.id ? "You can't vote on your own idea" : myVotes[idea.id] === 1 ? 'Remove upvote' : 'Upvote'}
                 >
-                  <ThumbsUp size={16} />
+                  <ThumbsUp size={16} className={myVotes[idea.id] === 1 ? 'fill-blue-400/30' : ''} />
                   <span className="text-sm">{idea.upvotes}</span>
                 </button>
+                <button
+                  onClick={() => handleVote(idea.id, -1)}
+                  disabled={idea.creator_id === user?.id}
+                  className={`flex items-center gap-1 transition-colors disabled:cursor-not-allowed ${
+                    myVotes[idea.id] === -1 ? 'text-red-400' : 'text-gray-400 enabled:hover:text-red-400'
+                  }`}
+                  title={idea.creator_id === user?.id ? "You can't vote on your own idea" : myVotes[idea.id] === -1 ? 'Remove downvote' : 'Downvote'}
+                >
+                  <ThumbsDown size={16} className={myVotes[idea.id] === -1 ? 'fill-red-400/30' : ''} />
+                </button>
+                <button
+                  onClick={() => setSelectedIdeaId(idea.id)}
+                  className="flex items-center gap-1 text-gray-400 hover:text-blue-400 transition-colors"
+                >
+                  <MessageCircle size={16} />
+                  <span className="text-sm">{getCommentCount(idea)}</span>
+                </button>
                 <div className="flex items-center gap-1 text-gray-400">
                   <Eye size={16} />
                   <span className="text-sm">{idea.view_count}</span>
                 </div>
               </div>
-              <button className="flex items-center gap-2 text-sm bg-blue-600/20 text-blue-400 px-3 py-1 rounded hover:bg-blue-600/30 transition-colors">
-                <FileText size={14} />
-                Request Demo
-              </button>
+              {renderDemoButton(idea)}
             </div>
           </div>
         ))}
       </div>
+
+      {selectedIdea && (
+        <IdeaDetail
+          idea={selectedIdea}
+          onClose={() => setSelectedIdeaId(null)}
+        />
+      )}
+
+      {requestingIdea && (
+        <DemoRequestModal
+          idea={requestingIdea}
+          onClose={() => setRequestingIdeaId(null)}
+          onRequested={() => {
+            setMyDemoRequests((prev) => ({ ...prev, [requestingIdea.id]: 'pending' }));
+            setRequestingIdeaId(null);
+          }}
+        />
+      )}
+
+      {showDemoRequests && (
+        <DemoRequestsPanel
+          onClose={() => setShowDemoRequests(false)}
+          onWithdrawn={(ideaId) => {
+            setMyDemoRequests((prev) => {
+              const next = { ...prev };
+              delete next[ideaId];
+              return next;
+            });
+          }}
+        />
+      )}
     </div>
   );
 }
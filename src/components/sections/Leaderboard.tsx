@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { getProfilePath } from '../../lib/routes';
+import { LeaderboardEntry, LeaderboardPeriod, leaderboardPeriods, loadLeaderboard, reputationRules } from '../../lib/reputation';
+import { useQueryParam } from '../../hooks/useQueryParam';
+import { Crown, Medal, Zap } from 'lucide-react';
+import BadgeChip from '../BadgeChip';
+import ReputationScore from '../ReputationScore';
+
+const podiumColors = ['text-yellow-400', 'text-gray-300', 'text-amber-600'];
+
+export default function Leaderboard() {
+  const { user } = useAuth();
+  const [periodParam, setPeriod] = useQueryParam('period', 'week');
+  const period: LeaderboardPeriod = periodParam in leaderboardPeriods ? (periodParam as LeaderboardPeriod) : 'week';
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    loadLeaderboard(period)
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((error) => console.error('Error loading leaderboard:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Leaderboard</h1>
+          <p className="text-gray-400">The creators giving the most to the community</p>
+        </div>
+      </div>
+
+      <div className="flex gap-6">
+        <div className="flex-1">
+          <div className="flex gap-2 mb-6">
+            {(Object.keys(leaderboardPeriods) as LeaderboardPeriod[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setPeriod(key)}
+                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                  period === key
+                    ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {leaderboardPeriods[key]}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="text-gray-400">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center text-gray-400">
+              No reputation earned {period === 'all' ? 'yet' : leaderboardPeriods[period].toLowerCase()}. Be the first!
+            </div>
+          ) : (
+            <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+              {entries.map((entry) => (
+                <div
+                  key={entry.user_id}
+                  className={`flex items-center gap-4 px-6 py-4 ${entry.user_id === user?.id ? 'bg-blue-600/10' : ''}`}
+                >
+                  <div className="w-8 text-center">
+                    {entry.rank <= 3 ? (
+                      <Medal className={`mx-auto ${podiumColors[entry.rank - 1]}`} size={22} />
+                    ) : (
+                      <span className="text-gray-400 font-medium">{entry.rank}</span>
+                    )}
+                  </div>
+                  <Link to={getProfilePath(entry.username)} className="shrink-0">
+                    <img src={entry.avatar_url} alt={entry.username} className="w-10 h-10 rounded-full" />
+                  </Link>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Link to={getProfilePath(entry.username)} className="font-medium hover:text-blue-400 transition-colors">
+                        {entry.username}
+                      </Link>
+                      {entry.badges?.slice(0, 2).map((badge) => (
+                        <BadgeChip key={badge} name={badge} size="sm" />
+                      ))}
+                    </div>
+                    {period !== 'all' && (
+                      <div className="text-xs text-gray-500 flex items-center gap-1">
+                        All time: <ReputationScore points={entry.reputation} />
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 text-amber-400 font-semibold">
+                    <Zap size={16} className="fill-amber-400" />
+                    {entry.points}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <aside className="w-80">
+          <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+            <div className="flex items-center gap-2 mb-4">
+              <Crown className="text-yellow-400" size={20} />
+              <h3 className="text-lg font-semibold">Earning Reputation</h3>
+            </div>
+            <ul className="space-y-3">
+              {reputationRules.map((rule) => (
+                <li key={rule.label} className="flex gap-3 text-sm">
+                  <span className="w-12 shrink-0 font-semibold text-amber-400">{rule.points}</span>
+                  <span className="text-gray-300">{rule.label}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
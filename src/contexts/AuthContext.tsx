@@ -1,14 +1,38 @@
 import { createContext, useContext, useEffect, useState } from 'react';
-import { User } from '@supabase/supabase-js';
+import { User, UserIdentity } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { getDiceBearAvatarUrl } from '../lib/avatars';
+import { UserRole } from '../lib/moderation';
+import { OAuthProvider, getProviderAvatarUrl } from '../lib/oauth';
+import { RESET_PASSWORD_PATH } from '../lib/routes';
+import { SocialLinks } from '../lib/socialLinks';
+import { isUsernameAvailable, validateUsername } from '../lib/usernames';
+
+// Accounts with a password confirm it; accounts that only use a provider confirm a code
+// emailed by sendReauthenticationCode instead.
+type PasswordChangeProof = { currentPassword: string } | { nonce: string };
 
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
   loading: boolean;
-  signUp: (email: string, password: string, username: string) => Promise<void>;
+  // True when the user is signed in but has no profile row yet.
+  profileMissing: boolean;
+  // True after following a password reset link, until a new password is set.
+  passwordRecovery: boolean;
+  signUp: (email: string, password: string, username: string) => Promise<{ needsConfirmation: boolean }>;
   signIn: (email: string, password: string) => Promise<void>;
+  signInWithProvider: (provider: OAuthProvider) => Promise<void>;
+  linkProvider: (provider: OAuthProvider) => Promise<void>;
+  unlinkIdentity: (identity: UserIdentity) => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  sendReauthenticationCode: () => Promise<void>;
+  updatePassword: (password: string, proof?: PasswordChangeProof) => Promise<void>;
+  updateEmail: (email: string) => Promise<void>;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
+  completeProfile: (username: string) => Promise<void>;
 }
 
 interface Profile {
@@ -17,6 +41,9 @@ interface Profile {
   avatar_url?: string;
   bio?: string;
   badges?: string[];
+  social_links?: SocialLinks;
+  role?: UserRole;
+  reputation?: number;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -24,6 +51,14 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [profileMissing, setProfileMissing] = useState(false);
+  // The recovery link lands on RESET_PASSWORD_PATH with the token in the hash (implicit flow)
+  // or a `code` query parameter (PKCE flow).
+  const [passwordRecovery, setPasswordRecovery] = useState(
+    () =>
+      window.location.pathname === RESET_PASSWORD_PATH &&
+      /type=recovery|[?&]code=/.test(window.location.hash + window.location.search)
+  );
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -36,13 +71,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
     });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      }
       (async () => {
         setUser(session?.user ?? null);
         if (session?.user) {
           await loadProfile(session.user.id);
         } else {
           setProfile(null);
+          setProfileMissing(false);
           setLoading(false);
         }
       })();
@@ -61,6 +100,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       if (error) throw error;
       setProfile(data);
+      setProfileMissing(!data);
     } catch (error) {
       console.error('Error loading profile:', error);
     } finally {
@@ -69,26 +109,45 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signUp = async (email: string, password: string, username: string) => {
+    const usernameError = validateUsername(username);
+    if (usernameError) throw new Error(usernameError);
+    if (!(await isUsernameAvailable(username))) {
+      throw new Error(`${username} is already taken`);
+    }
+
+    // The handle_new_user trigger creates the profile from this metadata.
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
+      options: {
+        data: { username },
+      },
     });
 
     if (error) throw error;
+    return { needsConfirmation: !data.session };
+  };
 
-    if (data.user) {
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .insert([
-          {
-            id: data.user.id,
-            username,
-            avatar_url: `https://api.dicebear.com/7.x/avataaars/svg?seed=${username}`,
-          },
-        ]);
-
-      if (profileError) throw profileError;
+  const completeProfile = async (username: string) => {
+    if (!user) return;
+
+    const usernameError = validateUsername(username);
+    if (usernameError) throw new Error(usernameError);
+
+    const { error } = await supabase
+      .from('profiles')
+      .insert([
+        {
+          id: user.id,
+          username,
+          avatar_url: getProviderAvatarUrl(user) ?? getDiceBearAvatarUrl(username),
+        },
+      ]);
+
+    if (error) {
+      throw error.code === '23505' ? new Error(`${username} is already taken`) : error;
     }
+    await loadProfile(user.id);
   };
 
   const signIn = async (email: string, password: string) => {
@@ -100,13 +159,128 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
   };
 
+  // New users get their profile from handle_new_user(). Supabase links the provider to an
+  // existing account automatically when both share a verified email address.
+  const signInWithProvider = async (provider: OAuthProvider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: window.location.origin },
+    });
+
+    if (error) throw error;
+  };
+
+  // Requires manual linking to be enabled in the Supabase Auth settings.
+  const linkProvider = async (provider: OAuthProvider) => {
+    const { error } = await supabase.auth.linkIdentity({
+      provider,
+      options: { redirectTo: window.location.href },
+    });
+
+    if (error) throw error;
+  };
+
+  const unlinkIdentity = async (identity: UserIdentity) => {
+    const { error } = await supabase.auth.unlinkIdentity(identity);
+    if (error) throw error;
+
+    const { data, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+    setUser(data.user);
+  };
+
+  const sendMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: window.location.origin,
+      },
+    });
+
+    if (error) throw error;
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}${RESET_PASSWORD_PATH}`,
+    });
+
+    if (error) throw error;
+  };
+
+  const sendReauthenticationCode = async () => {
+    const { error } = await supabase.auth.reauthenticate();
+    if (error) throw error;
+  };
+
+  // Outside of password recovery the change has to be confirmed, so an unattended session
+  // can't be used to lock the owner out.
+  const updatePassword = async (password: string, proof?: PasswordChangeProof) => {
+    if (!user?.email) throw new Error('You need to be signed in to change your password');
+
+    let nonce: string | undefined;
+    if (!passwordRecovery) {
+      if (proof && 'nonce' in proof) {
+        nonce = proof.nonce;
+      } else {
+        const { error: verifyError } = await supabase.auth.signInWithPassword({
+          email: user.email,
+          password: proof?.currentPassword ?? '',
+        });
+        if (verifyError) throw new Error('Your current password is incorrect');
+      }
+    }
+
+    const { error } = await supabase.auth.updateUser({ password, nonce });
+    if (error) throw error;
+    setPasswordRecovery(false);
+  };
+
+  // Supabase emails a confirmation link; the address only changes once it is followed.
+  const updateEmail = async (email: string) => {
+    const { data, error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: window.location.origin }
+    );
+
+    if (error) throw error;
+    setUser(data.user);
+  };
+
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
+    setPasswordRecovery(false);
+  };
+
+  const refreshProfile = async () => {
+    if (user) await loadProfile(user.id);
   };
 
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        profile,
+        loading,
+        profileMissing,
+        passwordRecovery,
+        signUp,
+        signIn,
+        signInWithProvider,
+        linkProvider,
+        unlinkIdentity,
+        sendMagicLink,
+        sendPasswordReset,
+        sendReauthenticationCode,
+        updatePassword,
+        updateEmail,
+        signOut,
+        refreshProfile,
+        completeProfile,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { FollowContext } from './followContext';
+import { followUser, loadFollowingIds, unfollowUser } from '../lib/follows';
+
+// Loads who the signed-in user follows once, so follow buttons on every card can share it.
+export function FollowProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [followingIds, setFollowingIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!userId) {
+      setFollowingIds(new Set());
+      return;
+    }
+
+    loadFollowingIds(userId)
+      .then((ids) => setFollowingIds(new Set(ids)))
+      .catch((error) => console.error('Error loading follows:', error));
+  }, [userId]);
+
+  const isFollowing = useCallback((targetId: string) => followingIds.has(targetId), [followingIds]);
+
+  const follow = async (targetId: string) => {
+    if (!userId) return;
+    await followUser(userId, targetId);
+    setFollowingIds((prev) => new Set(prev).add(targetId));
+  };
+
+  const unfollow = async (targetId: string) => {
+    if (!userId) return;
+    await unfollowUser(userId, targetId);
+    setFollowingIds((prev) => {
+      const next = new Set(prev);
+      next.delete(targetId);
+      return next;
+    });
+  };
+
+  return (
+    <FollowContext.Provider value={{ followingIds, isFollowing, follow, unfollow }}>
+      {children}
+    </FollowContext.Provider>
+  );
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+
+export interface FollowContextType {
+  followingIds: Set<string>;
+  isFollowing: (userId: string) => boolean;
+  follow: (userId: string) => Promise<void>;
+  unfollow: (userId: string) => Promise<void>;
+}
+
+export const FollowContext = createContext<FollowContextType | undefined>(undefined);
+
+export function useFollows() {
+  const context = useContext(FollowContext);
+  if (context === undefined) {
+    throw new Error('useFollows must be used within a FollowProvider');
+  }
+  return context;
+}
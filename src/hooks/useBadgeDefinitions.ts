@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { BadgeDefinition, loadBadgeDefinitions } from '../lib/badges';
+
+export function useBadgeDefinitions() {
+  const [definitions, setDefinitions] = useState<BadgeDefinition[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBadgeDefinitions()
+      .then((data) => {
+        if (!cancelled) setDefinitions(data);
+      })
+      .catch((error) => console.error('Error loading badges:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return definitions;
+}
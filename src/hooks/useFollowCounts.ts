@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { loadFollowCounts } from '../lib/follows';
+
+export function useFollowCounts(userId?: string) {
+  const [counts, setCounts] = useState({ followers: 0, following: 0 });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    loadFollowCounts(userId)
+      .then((data) => {
+        if (!cancelled) setCounts(data);
+      })
+      .catch((error) => console.error('Error loading follow counts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return [counts, setCounts] as const;
+}
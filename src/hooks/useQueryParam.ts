@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Keeps a single string filter in the query string so it survives refreshes and shared links.
+ * The parameter is dropped from the URL while it holds `defaultValue`.
+ */
+export function useQueryParam(name: string, defaultValue: string): [string, (value: string) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get(name) ?? defaultValue;
+
+  const setValue = useCallback(
+    (next: string) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (next === defaultValue) params.delete(name);
+          else params.set(name, next);
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [name, defaultValue, setSearchParams]
+  );
+
+  return [value, setValue];
+}
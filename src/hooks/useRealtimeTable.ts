@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+// Payloads are untyped JSON; handlers receive them as the row type the caller declares.
+type Row = Record<string, unknown>;
+
+interface RealtimeHandlers<T extends object> {
+  onInsert?: (row: T) => void;
+  onUpdate?: (row: T) => void;
+  onDelete?: (row: Partial<T>) => void;
+}
+
+/**
+ * Subscribes to inserts, updates and deletes on a table for as long as the component is mounted.
+ * `filter` uses the Realtime filter syntax, e.g. `idea_id=eq.<uuid>`. Realtime cannot filter
+ * deletes, so with a filter `onDelete` still hears about every row removed from the table and
+ * must ignore ids it has not loaded.
+ */
+export function useRealtimeTable<T extends object>(
+  table: string,
+  handlers: RealtimeHandlers<T>,
+  filter?: string
+) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const handleChange = (payload: RealtimePostgresChangesPayload<Row>) => {
+      const { onInsert, onUpdate, onDelete } = handlersRef.current;
+      if (payload.eventType === 'INSERT') onInsert?.(payload.new as T);
+      else if (payload.eventType === 'UPDATE') onUpdate?.(payload.new as T);
+      else if (payload.eventType === 'DELETE') onDelete?.(payload.old as Partial<T>);
+    };
+
+    const channel = supabase.channel(`${table}:${filter ?? 'all'}:${crypto.randomUUID()}`);
+    if (filter) {
+      channel
+        .on<Row>('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handleChange)
+        .on<Row>('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handleChange)
+        .on<Row>('postgres_changes', { event: 'DELETE', schema: 'public', table }, handleChange);
+    } else {
+      channel.on<Row>('postgres_changes', { event: '*', schema: 'public', table }, handleChange);
+    }
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter]);
+}
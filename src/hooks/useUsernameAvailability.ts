@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { isUsernameAvailable, validateUsername } from '../lib/usernames';
+
+export type UsernameStatus = 'idle' | 'invalid' | 'checking' | 'available' | 'taken' | 'error';
+
+const CHECK_DEBOUNCE_MS = 400;
+
+/**
+ * Validates `username` locally and then asks the database whether it is free.
+ * Returns 'idle' while the field is empty or unchanged from `currentUsername`.
+ */
+export function useUsernameAvailability(username: string, currentUsername?: string) {
+  const [status, setStatus] = useState<UsernameStatus>('idle');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const trimmed = username.trim();
+    if (!trimmed || trimmed === currentUsername) {
+      setStatus('idle');
+      setMessage('');
+      return;
+    }
+
+    const validationError = validateUsername(trimmed);
+    if (validationError) {
+      setStatus('invalid');
+      setMessage(validationError);
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('checking');
+    setMessage('Checking availability...');
+    const timeout = setTimeout(async () => {
+      try {
+        const available = await isUsernameAvailable(trimmed);
+        if (cancelled) return;
+        setStatus(available ? 'available' : 'taken');
+        setMessage(available ? `${trimmed} is available` : `${trimmed} is already taken`);
+      } catch (error) {
+        console.error('Error checking username:', error);
+        if (!cancelled) {
+          setStatus('error');
+          setMessage("Couldn't check availability");
+        }
+      }
+    }, CHECK_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [username, currentUsername]);
+
+  return { status, message };
+}
@@ -0,0 +1,48 @@
+export const AVATAR_SIZE = 256;
+
+export const getDiceBearAvatarUrl = (seed: string) =>
+  `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(seed)}`;
+
+export const randomAvatarSeed = () => Math.random().toString(36).slice(2, 10);
+
+export interface CropArea {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read that image'));
+    image.src = src;
+  });
+
+/**
+ * Draws the square `area` of the image (in natural pixels) onto a canvas of `outputSize`
+ * and encodes it as WebP. Browsers that can't encode WebP produce a PNG instead.
+ */
+export const cropToSquare = (
+  image: HTMLImageElement,
+  area: CropArea,
+  outputSize = AVATAR_SIZE
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Canvas is not supported'));
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, area.x, area.y, area.size, area.size, 0, 0, outputSize, outputSize);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not process that image'))),
+      'image/webp',
+      0.9
+    );
+  });
+};
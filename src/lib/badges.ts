@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+
+export type BadgeCriteriaType =
+  | 'upvoted_posts'
+  | 'released_projects'
+  | 'tournaments_organized'
+  | 'ideas_shared'
+  | 'manual';
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  criteria_type: BadgeCriteriaType;
+  threshold: number;
+}
+
+let definitionsRequest: Promise<BadgeDefinition[]> | null = null;
+
+// Definitions rarely change, so they are fetched once per page load and shared.
+export const loadBadgeDefinitions = (): Promise<BadgeDefinition[]> => {
+  if (!definitionsRequest) {
+    definitionsRequest = (async () => {
+      const { data, error } = await supabase
+        .from('badge_definitions')
+        .select('id, name, description, icon, criteria_type, threshold')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    })();
+    definitionsRequest.catch(() => {
+      definitionsRequest = null;
+    });
+  }
+  return definitionsRequest;
+};
+
+// profiles.badges is updated by a trigger once the user_badges row changes.
+export const awardBadge = async (userId: string, badgeId: string, adminId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('user_badges')
+    .insert([{ user_id: userId, badge_id: badgeId, awarded_by: adminId }]);
+
+  if (error) throw error;
+};
+
+export const revokeBadge = async (userId: string, badgeId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('user_badges')
+    .delete()
+    .eq('user_id', userId)
+    .eq('badge_id', badgeId);
+
+  if (error) throw error;
+};
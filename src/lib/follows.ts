@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+
+export type FeedItemType = 'game_idea' | 'media_post' | 'project' | 'event';
+
+export interface FeedItem {
+  item_type: FeedItemType;
+  id: string;
+  title: string;
+  summary: string;
+  // Genre, category, stage or event type, depending on item_type.
+  label: string;
+  event_date: string | null;
+  created_at: string;
+  author_id: string;
+  author_username: string;
+  author_avatar_url: string;
+  author_reputation: number;
+}
+
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+export const loadFollowingIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', userId);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.following_id);
+};
+
+export const followUser = async (followerId: string, followingId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('follows')
+    .insert([{ follower_id: followerId, following_id: followingId }]);
+
+  // Already following, e.g. from another tab.
+  if (error && error.code !== '23505') throw error;
+};
+
+export const unfollowUser = async (followerId: string, followingId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId);
+
+  if (error) throw error;
+};
+
+export const loadFollowCounts = async (userId: string): Promise<{ followers: number; following: number }> => {
+  const [followers, following] = await Promise.all([
+    supabase.from('follows').select('follower_id', { count: 'exact', head: true }).eq('following_id', userId),
+    supabase.from('follows').select('following_id', { count: 'exact', head: true }).eq('follower_id', userId),
+  ]);
+
+  if (followers.error) throw followers.error;
+  if (following.error) throw following.error;
+  return { followers: followers.count ?? 0, following: following.count ?? 0 };
+};
+
+// Pass the last item of the previous page as `cursor` to continue after it.
+export const loadFollowingFeed = async (cursor?: FeedCursor, limit = FEED_PAGE_SIZE): Promise<FeedItem[]> => {
+  const { data, error } = await supabase.rpc('get_following_feed', {
+    p_before: cursor?.created_at ?? null,
+    p_before_id: cursor?.id ?? null,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
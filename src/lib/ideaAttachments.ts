@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+import { deleteIdeaFile, getIdeaFileSignedUrl } from './storage';
+import { isWebUrl } from './links';
+
+export interface IdeaAttachment {
+  idea_id: string;
+  file_url: string | null;
+  storage_path: string | null;
+  file_name: string | null;
+}
+
+export const getIdeaAttachment = async (ideaId: string): Promise<IdeaAttachment | null> => {
+  const { data, error } = await supabase
+    .from('idea_attachments')
+    .select('idea_id, file_url, storage_path, file_name')
+    .eq('idea_id', ideaId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Uploaded files are private, so they are opened through a signed URL that expires shortly after.
+export const getIdeaAttachmentUrl = async (ideaId: string): Promise<string | null> => {
+  const attachment = await getIdeaAttachment(ideaId);
+  if (!attachment) return null;
+  if (attachment.storage_path) return getIdeaFileSignedUrl(attachment.storage_path);
+  return attachment.file_url;
+};
+
+export const saveIdeaAttachment = async (
+  ideaId: string,
+  source: { fileUrl: string } | { storagePath: string; fileName: string }
+): Promise<void> => {
+  if ('fileUrl' in source && !isWebUrl(source.fileUrl)) {
+    throw new Error('Attachment links must start with http:// or https://');
+  }
+
+  const previous = await getIdeaAttachment(ideaId);
+  const storagePath = 'storagePath' in source ? source.storagePath : null;
+
+  const { error } = await supabase
+    .from('idea_attachments')
+    .upsert({
+      idea_id: ideaId,
+      file_url: 'fileUrl' in source ? source.fileUrl : null,
+      storage_path: storagePath,
+      file_name: 'fileName' in source ? source.fileName : null,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+
+  if (previous?.storage_path && previous.storage_path !== storagePath) {
+    await deleteIdeaFile(previous.storage_path);
+  }
+};
+
+export const removeIdeaAttachment = async (ideaId: string): Promise<void> => {
+  const previous = await getIdeaAttachment(ideaId);
+
+  const { error } = await supabase
+    .from('idea_attachments')
+    .delete()
+    .eq('idea_id', ideaId);
+
+  if (error) throw error;
+
+  if (previous?.storage_path) {
+    await deleteIdeaFile(previous.storage_path);
+  }
+};
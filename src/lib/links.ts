@@ -0,0 +1,17 @@
+/**
+ * Turns user input into an absolute http(s) URL, adding https:// when no scheme was typed.
+ * Returns null for anything else, including javascript: and data: URLs.
+ */
+export const normalizeWebLink = (input: string): string | null => {
+  const trimmed = input.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// For URLs read back from the database before they are used as an href.
+export const isWebUrl = (url: string): boolean => /^https?:\/\//i.test(url);
@@ -0,0 +1,190 @@
+import { supabase } from './supabase';
+import { getItemPath } from './routes';
+
+export type UserRole = 'member' | 'moderator' | 'admin';
+
+export type ReportContentType =
+  | 'game_idea'
+  | 'idea_comment'
+  | 'media_post'
+  | 'media_comment'
+  | 'event'
+  | 'project'
+  | 'project_feedback';
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'other';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface Report {
+  id: string;
+  reporter_id: string;
+  content_type: ReportContentType;
+  content_id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  reporter: {
+    username: string;
+    avatar_url: string;
+  };
+}
+
+export interface ReportedContent {
+  id: string;
+  title: string | null;
+  body: string;
+  hidden_at: string | null;
+  author: { username: string; avatar_url: string } | null;
+  path: string;
+}
+
+export const reportReasons: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or hate',
+  inappropriate: 'Inappropriate content',
+  other: 'Something else',
+};
+
+interface ContentTable {
+  label: string;
+  table: string;
+  titleColumn?: string;
+  bodyColumn: string;
+  // Comments link to the item they belong to.
+  parent?: { column: string; type: 'game_idea' | 'media_post' | 'project' };
+  type?: 'game_idea' | 'media_post' | 'event' | 'project';
+}
+
+// Keep in sync with the content tables in the moderation migration.
+export const reportContentTables: Record<ReportContentType, ContentTable> = {
+  game_idea: { label: 'Idea', table: 'game_ideas', titleColumn: 'title', bodyColumn: 'summary', type: 'game_idea' },
+  idea_comment: { label: 'Idea comment', table: 'idea_comments', bodyColumn: 'content', parent: { column: 'idea_id', type: 'game_idea' } },
+  media_post: { label: 'Post', table: 'media_posts', titleColumn: 'title', bodyColumn: 'content', type: 'media_post' },
+  media_comment: { label: 'Post comment', table: 'media_comments', bodyColumn: 'content', parent: { column: 'post_id', type: 'media_post' } },
+  event: { label: 'Event', table: 'events', titleColumn: 'title', bodyColumn: 'description', type: 'event' },
+  project: { label: 'Project', table: 'projects', titleColumn: 'title', bodyColumn: 'description', type: 'project' },
+  project_feedback: { label: 'Project feedback', table: 'project_feedback', bodyColumn: 'content', parent: { column: 'project_id', type: 'project' } },
+};
+
+export const isModerator = (role?: UserRole | null) => role === 'moderator' || role === 'admin';
+
+export const reportContent = async (
+  reporterId: string,
+  contentType: ReportContentType,
+  contentId: string,
+  reason: ReportReason,
+  details: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('reports')
+    .insert([
+      {
+        reporter_id: reporterId,
+        content_type: contentType,
+        content_id: contentId,
+        reason,
+        details: details.trim() || null,
+      },
+    ]);
+
+  if (error) {
+    throw error.code === '23505' ? new Error('You have already reported this') : error;
+  }
+};
+
+export const loadReports = async (status: ReportStatus | 'closed'): Promise<Report[]> => {
+  let query = supabase
+    .from('reports')
+    .select('*, reporter:profiles!reports_reporter_id_fkey(username, avatar_url)')
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  query = status === 'closed' ? query.neq('status', 'open') : query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Deleted content is simply missing from the result.
+export const loadReportedContent = async (
+  contentType: ReportContentType,
+  ids: string[]
+): Promise<ReportedContent[]> => {
+  const config = reportContentTables[contentType];
+  const columns = ['id', 'hidden_at', config.bodyColumn, config.titleColumn, config.parent?.column]
+    .filter(Boolean)
+    .join(', ');
+
+  const { data, error } = await supabase
+    .from(config.table)
+    .select(`${columns}, profiles(username, avatar_url)`)
+    .in('id', ids);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as Record<string, unknown>[]).map((row) => {
+    const id = row.id as string;
+    return {
+      id,
+      title: config.titleColumn ? (row[config.titleColumn] as string) : null,
+      body: (row[config.bodyColumn] as string) ?? '',
+      hidden_at: row.hidden_at as string | null,
+      author: row.profiles as ReportedContent['author'],
+      path: config.parent
+        ? getItemPath(config.parent.type, row[config.parent.column] as string)
+        : getItemPath(config.type!, id),
+    };
+  });
+};
+
+// Pass the moderator's id to hide the content, or null to restore it.
+export const setContentHidden = async (
+  contentType: ReportContentType,
+  contentId: string,
+  moderatorId: string | null
+): Promise<void> => {
+  const { error } = await supabase
+    .from(reportContentTables[contentType].table)
+    .update({
+      hidden_at: moderatorId ? new Date().toISOString() : null,
+      hidden_by: moderatorId,
+    })
+    .eq('id', contentId);
+
+  if (error) throw error;
+};
+
+export const deleteContent = async (contentType: ReportContentType, contentId: string): Promise<void> => {
+  const { error } = await supabase
+    .from(reportContentTables[contentType].table)
+    .delete()
+    .eq('id', contentId);
+
+  if (error) throw error;
+};
+
+// Closes every open report against the content at once.
+export const closeReports = async (
+  contentType: ReportContentType,
+  contentId: string,
+  status: Exclude<ReportStatus, 'open'>,
+  moderatorId: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('reports')
+    .update({ status, resolved_by: moderatorId, resolved_at: new Date().toISOString() })
+    .eq('content_type', contentType)
+    .eq('content_id', contentId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+};
+
+export const setUserRole = async (username: string, role: UserRole): Promise<void> => {
+  const { error } = await supabase.rpc('set_user_role', { p_username: username, p_role: role });
+  if (error) throw error;
+};
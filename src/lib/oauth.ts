@@ -0,0 +1,27 @@
+import { User } from '@supabase/supabase-js';
+
+export type OAuthProvider = 'discord' | 'github' | 'twitch';
+
+// Each provider also has to be enabled in the Supabase dashboard (Authentication > Providers).
+export const oauthProviders: Record<OAuthProvider, { label: string }> = {
+  discord: { label: 'Discord' },
+  github: { label: 'GitHub' },
+  twitch: { label: 'Twitch' },
+};
+
+export const oauthProviderKeys = Object.keys(oauthProviders) as OAuthProvider[];
+
+/**
+ * Username suggestion from the provider profile, cleaned up the same way as in
+ * handle_new_user(). Empty when the provider sent nothing usable.
+ */
+export const getProviderUsername = (user: User): string => {
+  const metadata = user.user_metadata ?? {};
+  const raw = metadata.user_name ?? metadata.preferred_username ?? metadata.full_name ?? metadata.name ?? '';
+  return String(raw).replace(/[^A-Za-z0-9_]/g, '').slice(0, 20);
+};
+
+export const getProviderAvatarUrl = (user: User): string | undefined => {
+  const metadata = user.user_metadata ?? {};
+  return metadata.avatar_url ?? metadata.picture ?? undefined;
+};
@@ -0,0 +1,12 @@
+// Matches the minimum password length configured for Supabase Auth.
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const validateNewPassword = (password: string, confirmPassword: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (password !== confirmPassword) {
+    return "Passwords don't match";
+  }
+  return null;
+};
@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username: string;
+  avatar_url: string;
+  badges: string[] | null;
+  points: number;
+  reputation: number;
+}
+
+export const leaderboardPeriods: Record<LeaderboardPeriod, string> = {
+  week: 'This Week',
+  month: 'This Month',
+  all: 'All Time',
+};
+
+// Keep in sync with reputation_points() in the reputation migration.
+export const reputationRules = [
+  { points: '+2', label: 'per upvote on your game ideas and media posts' },
+  { points: '+1-5', label: 'per rating on your projects, by stars' },
+  { points: '+1', label: 'per piece of project feedback you give' },
+  { points: '+5', label: 'per event you organize' },
+];
+
+export const loadLeaderboard = async (period: LeaderboardPeriod, limit = 50): Promise<LeaderboardEntry[]> => {
+  const { data, error } = await supabase.rpc('get_leaderboard', { p_period: period, p_limit: limit });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const formatReputation = (points: number): string =>
+  points >= 10000 ? `${Math.round(points / 1000)}k` : points >= 1000 ? `${(points / 1000).toFixed(1)}k` : String(points);
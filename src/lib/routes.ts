@@ -0,0 +1,32 @@
+import { SearchResultType } from './search';
+
+export const sectionPaths = {
+  following: '/following',
+  ideas: '/ideas',
+  media: '/media',
+  events: '/events',
+  collaboration: '/projects',
+  leaderboard: '/leaderboard',
+  search: '/search',
+  moderation: '/moderation',
+};
+
+export const RESET_PASSWORD_PATH = '/reset-password';
+
+export const getProfilePath = (username: string) => `/u/${encodeURIComponent(username)}`;
+
+export const getItemPath = (type: Exclude<SearchResultType, 'profile'>, id: string) => {
+  switch (type) {
+    case 'game_idea':
+      return `${sectionPaths.ideas}/${id}`;
+    case 'media_post':
+      return `${sectionPaths.media}/${id}`;
+    case 'event':
+      return `${sectionPaths.events}/${id}`;
+    case 'project':
+      return `${sectionPaths.collaboration}/${id}`;
+  }
+};
+
+export const getSearchPath = (query: string) =>
+  `${sectionPaths.search}?${new URLSearchParams({ q: query }).toString()}`;
@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+
+export type SearchResultType = 'game_idea' | 'media_post' | 'event' | 'project' | 'profile';
+
+export interface SearchResult {
+  result_type: SearchResultType;
+  id: string;
+  title: string;
+  title_highlight: string;
+  snippet: string;
+  rank: number;
+  created_at: string;
+}
+
+export const HIGHLIGHT_START = '«';
+export const HIGHLIGHT_END = '»';
+
+export const searchAll = async (query: string, perTypeLimit = 5): Promise<SearchResult[]> => {
+  const { data, error } = await supabase.rpc('search_all', {
+    p_query: query,
+    p_per_type_limit: perTypeLimit,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Splits a ts_headline string into plain and matched parts.
+export const splitHighlights = (text: string): { text: string; match: boolean }[] =>
+  text
+    .split(new RegExp(`(${HIGHLIGHT_START}[^${HIGHLIGHT_END}]*${HIGHLIGHT_END})`))
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith(HIGHLIGHT_START) && part.endsWith(HIGHLIGHT_END)
+        ? { text: part.slice(1, -1), match: true }
+        : { text: part, match: false }
+    );
@@ -0,0 +1,66 @@
+export type SocialPlatform = 'youtube' | 'instagram' | 'twitter' | 'linkedin';
+
+export type SocialLinks = Partial<Record<SocialPlatform, string>>;
+
+interface PlatformRule {
+  label: string;
+  hosts: string[];
+  example: string;
+}
+
+// Keep in sync with is_valid_social_links() in the social links migration.
+export const socialPlatforms: Record<SocialPlatform, PlatformRule> = {
+  youtube: { label: 'YouTube', hosts: ['youtube.com', 'youtu.be'], example: 'https://www.youtube.com/@yourchannel' },
+  instagram: { label: 'Instagram', hosts: ['instagram.com'], example: 'https://www.instagram.com/yourname' },
+  twitter: { label: 'Twitter', hosts: ['twitter.com', 'x.com'], example: 'https://x.com/yourname' },
+  linkedin: { label: 'LinkedIn', hosts: ['linkedin.com'], example: 'https://www.linkedin.com/in/yourname' },
+};
+
+export const socialPlatformKeys = Object.keys(socialPlatforms) as SocialPlatform[];
+
+/**
+ * Turns user input into an https URL for the platform, or returns an error message.
+ * A missing scheme is filled in so "youtube.com/@name" is accepted.
+ */
+export const normalizeSocialLink = (
+  platform: SocialPlatform,
+  input: string
+): { url: string } | { error: string } => {
+  const rule = socialPlatforms[platform];
+  const trimmed = input.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme);
+  } catch {
+    return { error: `Enter a valid ${rule.label} URL, e.g. ${rule.example}` };
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { error: `${rule.label} links must start with https://` };
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (!rule.hosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`))) {
+    return { error: `That doesn't look like a ${rule.label} link, e.g. ${rule.example}` };
+  }
+
+  if (parsed.pathname === '/' || parsed.pathname === '') {
+    return { error: `Link to your ${rule.label} profile, not the home page` };
+  }
+
+  parsed.protocol = 'https:';
+  return { url: parsed.toString() };
+};
+
+/** Keeps only known platforms with string URLs, for data read back from the database. */
+export const parseSocialLinks = (value: unknown): SocialLinks => {
+  if (!value || typeof value !== 'object') return {};
+  const links: SocialLinks = {};
+  for (const platform of socialPlatformKeys) {
+    const url = (value as Record<string, unknown>)[platform];
+    if (typeof url === 'string' && url) links[platform] = url;
+  }
+  return links;
+};
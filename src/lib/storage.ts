@@ -40,6 +40,128 @@ export const deletePortfolioFile = async (
   if (error) throw error;
 };
 
+const IDEA_FILE_URL_TTL_SECONDS = 60;
+
+export const uploadIdeaFile = async (
+  file: File,
+  userId: string,
+  ideaId: string
+): Promise<{ path: string; fileName: string }> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${ideaId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('idea_files')
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false,
+    });
+
+  if (error) throw error;
+
+  return {
+    path: filePath,
+    fileName: file.name,
+  };
+};
+
+export const getIdeaFileSignedUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from('idea_files')
+    .createSignedUrl(path, IDEA_FILE_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const deleteIdeaFile = async (path: string): Promise<void> => {
+  const { error } = await supabase.storage
+    .from('idea_files')
+    .remove([path]);
+
+  if (error) throw error;
+};
+
+const AVATAR_BUCKET = 'avatars';
+
+export const uploadAvatar = async (image: Blob, userId: string): Promise<string> => {
+  const fileExt = image.type.split('/').pop();
+  const filePath = `${userId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .upload(filePath, image, {
+      cacheControl: '3600',
+      contentType: image.type,
+      upsert: false,
+    });
+
+  if (error) throw error;
+
+  const { data } = supabase.storage
+    .from(AVATAR_BUCKET)
+    .getPublicUrl(filePath);
+
+  return data.publicUrl;
+};
+
+// Returns the object path for avatars stored in our bucket, or null for DiceBear and other external URLs.
+export const getAvatarPath = (avatarUrl: string): string | null => {
+  const marker = `/storage/v1/object/public/${AVATAR_BUCKET}/`;
+  const index = avatarUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(avatarUrl.slice(index + marker.length));
+};
+
+export const deleteAvatar = async (avatarUrl: string): Promise<void> => {
+  const path = getAvatarPath(avatarUrl);
+  if (!path) return;
+
+  const { error } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .remove([path]);
+
+  if (error) throw error;
+};
+
+const PROJECT_IMAGE_BUCKET = 'project_images';
+
+export const uploadProjectImage = async (file: File, userId: string, projectId: string): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${projectId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(PROJECT_IMAGE_BUCKET)
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      contentType: file.type,
+      upsert: false,
+    });
+
+  if (error) throw error;
+
+  const { data } = supabase.storage
+    .from(PROJECT_IMAGE_BUCKET)
+    .getPublicUrl(filePath);
+
+  return data.publicUrl;
+};
+
+// The database checks the path of devlog images but can't know this project's host.
+export const isProjectImageUrl = (url: string): boolean =>
+  url.startsWith(supabase.storage.from(PROJECT_IMAGE_BUCKET).getPublicUrl('').data.publicUrl);
+
+export const deleteProjectImage = async (imageUrl: string): Promise<void> => {
+  const marker = `/storage/v1/object/public/${PROJECT_IMAGE_BUCKET}/`;
+  const index = imageUrl.indexOf(marker);
+  if (index === -1) return;
+
+  const { error } = await supabase.storage
+    .from(PROJECT_IMAGE_BUCKET)
+    .remove([decodeURIComponent(imageUrl.slice(index + marker.length))]);
+
+  if (error) throw error;
+};
+
 export const getFileType = (fileName: string): 'image' | 'pdf' | 'link' => {
   const ext = fileName.split('.').pop()?.toLowerCase() || '';
   if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) return 'image';
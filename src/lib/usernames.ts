@@ -0,0 +1,32 @@
+import { supabase } from './supabase';
+
+// Keep in sync with the profiles_username_format constraint.
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]+$/;
+export const USERNAME_CHANGE_COOLDOWN_DAYS = 30;
+
+export const validateUsername = (username: string): string | null => {
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Usernames must be ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Use only letters, numbers and underscores';
+  }
+  return null;
+};
+
+export const isUsernameAvailable = async (username: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_username_available', { p_username: username });
+
+  if (error) throw error;
+  return data === true;
+};
+
+// Finds the current name of a user who used to go by `username`, for old profile links.
+export const resolveUsername = async (username: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('resolve_username', { p_username: username });
+
+  if (error) throw error;
+  return data ?? null;
+};
@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+
+export type VoteTargetType = 'game_idea' | 'media_post';
+export type VoteValue = -1 | 0 | 1;
+
+export const loadUserVotes = async (
+  userId: string,
+  targetType: VoteTargetType
+): Promise<Record<string, VoteValue>> => {
+  const { data, error } = await supabase
+    .from('votes')
+    .select('target_id, value')
+    .eq('user_id', userId)
+    .eq('target_type', targetType);
+
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map((vote) => [vote.target_id, vote.value as VoteValue]));
+};
+
+const voteTargetTables: Record<VoteTargetType, string> = {
+  game_idea: 'game_ideas',
+  media_post: 'media_posts',
+};
+
+// Counters are read back after the vote rather than adjusted locally, so the result agrees
+// with realtime updates of the same row whichever arrives first.
+export const toggleVote = async (
+  targetType: VoteTargetType,
+  targetId: string,
+  value: 1 | -1
+): Promise<{ vote: VoteValue; upvotes: number; downvotes: number }> => {
+  const { data: vote, error } = await supabase.rpc('toggle_vote', {
+    p_target_type: targetType,
+    p_target_id: targetId,
+    p_value: value,
+  });
+
+  if (error) throw error;
+
+  const { data: counts, error: countsError } = await supabase
+    .from(voteTargetTables[targetType])
+    .select('upvotes, downvotes')
+    .eq('id', targetId)
+    .single();
+
+  if (countsError) throw countsError;
+
+  return { vote: vote as VoteValue, upvotes: counts.upvotes, downvotes: counts.downvotes };
+};
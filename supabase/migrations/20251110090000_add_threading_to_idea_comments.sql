@@ -0,0 +1,84 @@
+/*
+  # Threaded comments on game ideas
+
+  ## Changes
+
+  ### 1. idea_comments table
+  - Add `parent_id` (uuid, references idea_comments, optional): the comment being replied to
+  - Add `updated_at` (timestamptz, optional): set when the author edits the comment
+
+  ## Triggers
+  - A reply's `parent_id` must be a comment on the same idea
+  - Only `content` and `updated_at` can change on update; the idea, author, parent and
+    creation time are fixed
+
+  ## Security
+  - Users can update their own comments
+
+  ## Notes
+  - Deleting a comment also deletes its replies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'idea_comments' AND column_name = 'parent_id'
+  ) THEN
+    ALTER TABLE idea_comments ADD COLUMN parent_id uuid REFERENCES idea_comments(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'idea_comments' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE idea_comments ADD COLUMN updated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idea_comments_idea_id_idx ON idea_comments(idea_id);
+CREATE INDEX IF NOT EXISTS idea_comments_parent_id_idx ON idea_comments(parent_id);
+
+CREATE POLICY "Users can update own comments"
+  ON idea_comments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION check_idea_comment_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM idea_comments WHERE id = NEW.parent_id AND idea_id = NEW.idea_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to the same idea as their parent comment'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS idea_comments_check_parent ON idea_comments;
+CREATE TRIGGER idea_comments_check_parent
+  BEFORE INSERT ON idea_comments
+  FOR EACH ROW EXECUTE FUNCTION check_idea_comment_parent();
+
+CREATE OR REPLACE FUNCTION lock_idea_comment_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.idea_id := OLD.idea_id;
+  NEW.user_id := OLD.user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS idea_comments_lock_fields ON idea_comments;
+CREATE TRIGGER idea_comments_lock_fields
+  BEFORE UPDATE ON idea_comments
+  FOR EACH ROW EXECUTE FUNCTION lock_idea_comment_fields();
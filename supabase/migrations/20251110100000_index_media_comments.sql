@@ -0,0 +1,8 @@
+/*
+  # Index media_comments by post
+
+  ## Changes
+  - Add an index on `media_comments.post_id` for loading a post's comments and comment counts
+*/
+
+CREATE INDEX IF NOT EXISTS media_comments_post_id_idx ON media_comments(post_id);
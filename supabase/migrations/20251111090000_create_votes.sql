@@ -0,0 +1,280 @@
+/*
+  # One vote per user on ideas and media posts
+
+  ## New Tables
+
+  ### votes
+  A user's vote on a game idea or media post
+  - `user_id` (uuid, references profiles)
+  - `target_type` (text: game_idea, media_post)
+  - `target_id` (uuid, id of the idea or post)
+  - `value` (smallint: 1 for an upvote, -1 for a downvote)
+  - `created_at` (timestamptz)
+  - Primary key (user_id, target_type, target_id), so each user has at most one vote per item
+
+  ## Changes
+  - Add `downvotes` (integer) to game_ideas and media_posts
+  - `upvotes` and `downvotes` are maintained by a trigger on votes and can no longer be
+    changed directly by clients
+  - Existing counters are recounted from votes; the old values had no per-user record behind them
+
+  ## Functions
+  - `toggle_vote(target_type, target_id, value)`: casts, switches or removes the caller's vote
+    and returns the resulting vote (1, -1 or 0 for none)
+
+  ## Triggers
+  - Votes on your own idea or post are rejected
+  - Only `value` can change on update; the voter and the target are fixed, so a vote can't
+    be moved to another item
+
+  ## Security
+  - Enable RLS on votes
+  - Authenticated users can read all votes
+  - Users can only create, change and delete their own votes, and can't vote on their own
+    content
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'game_ideas' AND column_name = 'downvotes'
+  ) THEN
+    ALTER TABLE game_ideas ADD COLUMN downvotes integer DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'media_posts' AND column_name = 'downvotes'
+  ) THEN
+    ALTER TABLE media_posts ADD COLUMN downvotes integer DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS votes (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('game_idea', 'media_post')),
+  target_id uuid NOT NULL,
+  value smallint NOT NULL CHECK (value IN (-1, 1)),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS votes_target_idx ON votes(target_type, target_id);
+
+ALTER TABLE votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view votes"
+  ON votes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can cast votes"
+  ON votes FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can change own votes"
+  ON votes FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own votes"
+  ON votes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION check_vote_target()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_id uuid;
+BEGIN
+  IF NEW.target_type = 'game_idea' THEN
+    SELECT creator_id INTO v_owner_id FROM game_ideas WHERE id = NEW.target_id;
+  ELSE
+    SELECT author_id INTO v_owner_id FROM media_posts WHERE id = NEW.target_id;
+  END IF;
+
+  IF v_owner_id = NEW.user_id THEN
+    RAISE EXCEPTION 'You can''t vote on your own content'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS votes_check_target ON votes;
+CREATE TRIGGER votes_check_target
+  BEFORE INSERT ON votes
+  FOR EACH ROW EXECUTE FUNCTION check_vote_target();
+
+CREATE OR REPLACE FUNCTION lock_vote_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  NEW.target_type := OLD.target_type;
+  NEW.target_id := OLD.target_id;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS votes_lock_fields ON votes;
+CREATE TRIGGER votes_lock_fields
+  BEFORE UPDATE ON votes
+  FOR EACH ROW EXECUTE FUNCTION lock_vote_fields();
+
+-- Keep upvotes/downvotes in step with the votes table
+CREATE OR REPLACE FUNCTION apply_vote_counters()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target_type text := COALESCE(NEW.target_type, OLD.target_type);
+  v_target_id uuid := COALESCE(NEW.target_id, OLD.target_id);
+  v_up integer := 0;
+  v_down integer := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF OLD.value = 1 THEN v_up := v_up - 1; ELSE v_down := v_down - 1; END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.value = 1 THEN v_up := v_up + 1; ELSE v_down := v_down + 1; END IF;
+  END IF;
+
+  PERFORM set_config('gamesocio.counter_update', 'on', true);
+
+  IF v_target_type = 'game_idea' THEN
+    UPDATE game_ideas
+    SET upvotes = upvotes + v_up, downvotes = downvotes + v_down
+    WHERE id = v_target_id;
+  ELSE
+    UPDATE media_posts
+    SET upvotes = upvotes + v_up, downvotes = downvotes + v_down
+    WHERE id = v_target_id;
+  END IF;
+
+  IF NOT FOUND AND TG_OP <> 'DELETE' THEN
+    RAISE EXCEPTION 'Vote target % % does not exist', v_target_type, v_target_id;
+  END IF;
+
+  PERFORM set_config('gamesocio.counter_update', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS votes_apply_counters ON votes;
+CREATE TRIGGER votes_apply_counters
+  AFTER INSERT OR UPDATE OR DELETE ON votes
+  FOR EACH ROW EXECUTE FUNCTION apply_vote_counters();
+
+-- Ignore direct writes to the counters; only apply_vote_counters may change them
+CREATE OR REPLACE FUNCTION protect_vote_counters()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('gamesocio.counter_update', true) IS DISTINCT FROM 'on' THEN
+    NEW.upvotes := OLD.upvotes;
+    NEW.downvotes := OLD.downvotes;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS game_ideas_protect_vote_counters ON game_ideas;
+CREATE TRIGGER game_ideas_protect_vote_counters
+  BEFORE UPDATE ON game_ideas
+  FOR EACH ROW EXECUTE FUNCTION protect_vote_counters();
+
+DROP TRIGGER IF EXISTS media_posts_protect_vote_counters ON media_posts;
+CREATE TRIGGER media_posts_protect_vote_counters
+  BEFORE UPDATE ON media_posts
+  FOR EACH ROW EXECUTE FUNCTION protect_vote_counters();
+
+-- votes.target_id has no foreign key, so clean up after deleted targets
+CREATE OR REPLACE FUNCTION delete_target_votes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM votes WHERE target_type = TG_ARGV[0] AND target_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS game_ideas_delete_votes ON game_ideas;
+CREATE TRIGGER game_ideas_delete_votes
+  AFTER DELETE ON game_ideas
+  FOR EACH ROW EXECUTE FUNCTION delete_target_votes('game_idea');
+
+DROP TRIGGER IF EXISTS media_posts_delete_votes ON media_posts;
+CREATE TRIGGER media_posts_delete_votes
+  AFTER DELETE ON media_posts
+  FOR EACH ROW EXECUTE FUNCTION delete_target_votes('media_post');
+
+CREATE OR REPLACE FUNCTION toggle_vote(p_target_type text, p_target_id uuid, p_value integer)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_existing smallint;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_value NOT IN (-1, 1) THEN
+    RAISE EXCEPTION 'Vote value must be 1 or -1';
+  END IF;
+
+  SELECT value INTO v_existing
+  FROM votes
+  WHERE user_id = auth.uid() AND target_type = p_target_type AND target_id = p_target_id
+  FOR UPDATE;
+
+  IF v_existing = p_value THEN
+    DELETE FROM votes
+    WHERE user_id = auth.uid() AND target_type = p_target_type AND target_id = p_target_id;
+    RETURN 0;
+  END IF;
+
+  INSERT INTO votes (user_id, target_type, target_id, value)
+  VALUES (auth.uid(), p_target_type, p_target_id, p_value)
+  ON CONFLICT (user_id, target_type, target_id) DO UPDATE SET value = EXCLUDED.value;
+
+  RETURN p_value;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION toggle_vote(text, uuid, integer) TO authenticated;
+
+-- Recount existing counters from the (empty) votes table
+SELECT set_config('gamesocio.counter_update', 'on', true);
+
+UPDATE game_ideas g
+SET
+  upvotes = (SELECT count(*) FROM votes v WHERE v.target_type = 'game_idea' AND v.target_id = g.id AND v.value = 1),
+  downvotes = (SELECT count(*) FROM votes v WHERE v.target_type = 'game_idea' AND v.target_id = g.id AND v.value = -1);
+
+UPDATE media_posts p
+SET
+  upvotes = (SELECT count(*) FROM votes v WHERE v.target_type = 'media_post' AND v.target_id = p.id AND v.value = 1),
+  downvotes = (SELECT count(*) FROM votes v WHERE v.target_type = 'media_post' AND v.target_id = p.id AND v.value = -1);
+
+SELECT set_config('gamesocio.counter_update', 'off', true);
@@ -0,0 +1,159 @@
+/*
+  # Demo request workflow
+
+  ## New Tables
+
+  ### idea_attachments
+  The demo or design file behind a game idea, released only to approved requesters
+  - `idea_id` (uuid, primary key, references game_ideas)
+  - `file_url` (text): link to the demo build or document, which must be an http(s) URL
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### 1. game_ideas table
+  - `file_url` is moved into idea_attachments and dropped. Every column of game_ideas is
+    readable by all authenticated users, so the link cannot stay there and be gated.
+    Links that are not http(s) URLs (javascript:, data: and so on) are not carried over.
+
+  ### 2. demo_requests table
+  - `status` is limited to pending, approved and rejected
+  - Add `responded_at` (timestamptz, optional): when the creator approved or rejected
+  - One request per user per idea; a rejected requester asks again by replacing the
+    rejected request with a new one
+  - Only `status` and `responded_at` can change after a request is created
+
+  ## Security
+  - Requests must start as pending and cannot target the requester's own idea
+  - Idea creators can approve or reject requests for their ideas
+  - Requesters can withdraw their pending requests and remove rejected ones
+  - idea_attachments are visible to the idea's creator and to approved requesters only
+  - Only the idea's creator can add, change or remove its attachment
+*/
+
+CREATE TABLE IF NOT EXISTS idea_attachments (
+  idea_id uuid PRIMARY KEY REFERENCES game_ideas(id) ON DELETE CASCADE,
+  file_url text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'game_ideas' AND column_name = 'file_url'
+  ) THEN
+    INSERT INTO idea_attachments (idea_id, file_url)
+    SELECT id, file_url FROM game_ideas WHERE file_url IS NOT NULL
+    ON CONFLICT (idea_id) DO NOTHING;
+
+    ALTER TABLE game_ideas DROP COLUMN file_url;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'idea_attachments_file_url_check'
+  ) THEN
+    DELETE FROM idea_attachments WHERE file_url !~* '^https?://';
+
+    ALTER TABLE idea_attachments
+      ADD CONSTRAINT idea_attachments_file_url_check CHECK (file_url IS NULL OR file_url ~* '^https?://');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'demo_requests' AND column_name = 'responded_at'
+  ) THEN
+    ALTER TABLE demo_requests ADD COLUMN responded_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'demo_requests_status_check'
+  ) THEN
+    ALTER TABLE demo_requests
+      ADD CONSTRAINT demo_requests_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'demo_requests_idea_requester_key'
+  ) THEN
+    ALTER TABLE demo_requests
+      ADD CONSTRAINT demo_requests_idea_requester_key UNIQUE (idea_id, requester_id);
+  END IF;
+END $$;
+
+ALTER TABLE idea_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Creators and approved requesters can view attachments"
+  ON idea_attachments FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id)
+    OR EXISTS (
+      SELECT 1 FROM demo_requests
+      WHERE demo_requests.idea_id = idea_attachments.idea_id
+        AND demo_requests.requester_id = auth.uid()
+        AND demo_requests.status = 'approved'
+    )
+  );
+
+CREATE POLICY "Creators can add attachments"
+  ON idea_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id));
+
+CREATE POLICY "Creators can update attachments"
+  ON idea_attachments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id))
+  WITH CHECK (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id));
+
+CREATE POLICY "Creators can delete attachments"
+  ON idea_attachments FOR DELETE
+  TO authenticated
+  USING (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id));
+
+DROP POLICY IF EXISTS "Users can create demo requests" ON demo_requests;
+
+CREATE POLICY "Users can create demo requests"
+  ON demo_requests FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = requester_id
+    AND status = 'pending'
+    AND auth.uid() NOT IN (SELECT creator_id FROM game_ideas WHERE id = idea_id)
+  );
+
+CREATE POLICY "Idea creators can respond to demo requests"
+  ON demo_requests FOR UPDATE
+  TO authenticated
+  USING (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id))
+  WITH CHECK (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id));
+
+CREATE POLICY "Requesters can withdraw pending and remove rejected requests"
+  ON demo_requests FOR DELETE
+  TO authenticated
+  USING (auth.uid() = requester_id AND status IN ('pending', 'rejected'));
+
+-- Responding to a request may only change its status
+CREATE OR REPLACE FUNCTION lock_demo_request_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.idea_id := OLD.idea_id;
+  NEW.requester_id := OLD.requester_id;
+  NEW.message := OLD.message;
+  NEW.created_at := OLD.created_at;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.responded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS demo_requests_lock_fields ON demo_requests;
+CREATE TRIGGER demo_requests_lock_fields
+  BEFORE UPDATE ON demo_requests
+  FOR EACH ROW EXECUTE FUNCTION lock_demo_request_fields();
@@ -0,0 +1,117 @@
+/*
+  # Private storage for game idea attachments
+
+  ## Changes
+
+  ### 1. idea_files storage bucket (NEW)
+  - Private bucket, unlike the public `portfolio_uploads` bucket
+  - Objects live under `<creator id>/<idea id>/<file>`
+  - Files are only reachable through short-lived signed URLs
+
+  ### 2. idea_attachments table
+  - Add `storage_path` (text, optional): object path in the idea_files bucket
+  - Add `file_name` (text, optional): original filename, for display
+  - `file_url` becomes optional; an attachment is either an external link or an uploaded file,
+    never both. External links are still held to `idea_attachments_file_url_check`, so they
+    must be http(s) URLs.
+
+  ## Security
+  - Creators can upload, replace and delete files in their own folder
+  - An attachment's `storage_path` must point into the creator's folder for that idea
+  - A file can be read (and so signed) by its uploader and by users whose demo request
+    for the idea named by the file's folder has been approved
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('idea_files', 'idea_files', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'idea_attachments' AND column_name = 'storage_path'
+  ) THEN
+    ALTER TABLE idea_attachments ADD COLUMN storage_path text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'idea_attachments' AND column_name = 'file_name'
+  ) THEN
+    ALTER TABLE idea_attachments ADD COLUMN file_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'idea_attachments_source_check'
+  ) THEN
+    ALTER TABLE idea_attachments
+      ADD CONSTRAINT idea_attachments_source_check CHECK (num_nonnulls(file_url, storage_path) = 1);
+  END IF;
+END $$;
+
+ALTER TABLE idea_attachments ALTER COLUMN file_url DROP NOT NULL;
+
+DROP POLICY IF EXISTS "Creators can add attachments" ON idea_attachments;
+CREATE POLICY "Creators can add attachments"
+  ON idea_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id)
+    AND (storage_path IS NULL OR storage_path LIKE auth.uid()::text || '/' || idea_id::text || '/%')
+  );
+
+DROP POLICY IF EXISTS "Creators can update attachments" ON idea_attachments;
+CREATE POLICY "Creators can update attachments"
+  ON idea_attachments FOR UPDATE
+  TO authenticated
+  USING (auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id))
+  WITH CHECK (
+    auth.uid() IN (SELECT creator_id FROM game_ideas WHERE id = idea_id)
+    AND (storage_path IS NULL OR storage_path LIKE auth.uid()::text || '/' || idea_id::text || '/%')
+  );
+
+CREATE POLICY "Creators can upload idea files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'idea_files'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Creators can replace idea files"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'idea_files'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Creators can delete idea files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'idea_files'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Creators and approved requesters can read idea files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'idea_files'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1
+        FROM public.idea_attachments a
+        JOIN public.game_ideas g ON g.id = a.idea_id
+        JOIN public.demo_requests d ON d.idea_id = a.idea_id
+        WHERE a.storage_path = storage.objects.name
+          AND a.idea_id::text = (storage.foldername(storage.objects.name))[2]
+          AND g.creator_id::text = (storage.foldername(storage.objects.name))[1]
+          AND d.requester_id = auth.uid()
+          AND d.status = 'approved'
+      )
+    )
+  );
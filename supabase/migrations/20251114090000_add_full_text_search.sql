@@ -0,0 +1,190 @@
+/*
+  # Full-text search across ideas, media, events, projects and profiles
+
+  ## Changes
+  - Add a generated `search_vector` (tsvector) column and GIN index to:
+    - game_ideas: title (A), genre and category (B), summary and tags (C)
+    - media_posts: title (A), category (B), content (C)
+    - events: title (A), event_type and location (B), description and tags (C)
+    - projects: title (A), stage (B), description (C)
+    - profiles: username (A), bio (C)
+
+  ## Functions
+  - `search_all(query, per_type_limit)`: ranked matches from every table, grouped by
+    `result_type` (game_idea, media_post, event, project, profile). Every word of the
+    query must match, and the last word is matched as a prefix so results update while
+    typing. `title_highlight` and `snippet` wrap matched terms in « and ».
+
+  ## Security
+  - search_all runs with the caller's permissions, so RLS still applies
+*/
+
+-- array_to_string is only STABLE, which generated columns do not accept
+CREATE OR REPLACE FUNCTION immutable_array_to_string(arr text[])
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT array_to_string(arr, ' ');
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'game_ideas' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE game_ideas ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(genre, '') || ' ' || coalesce(category, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(summary, '') || ' ' || coalesce(immutable_array_to_string(tags), '')), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'media_posts' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE media_posts ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(content, '')), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE events ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(event_type, '') || ' ' || coalesce(location, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(immutable_array_to_string(tags), '')), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(stage, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'C')
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(username, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(bio, '')), 'C')
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS game_ideas_search_idx ON game_ideas USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS media_posts_search_idx ON media_posts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS events_search_idx ON events USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS projects_search_idx ON projects USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS profiles_search_idx ON profiles USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION search_all(p_query text, p_per_type_limit integer DEFAULT 5)
+RETURNS TABLE (
+  result_type text,
+  id uuid,
+  title text,
+  title_highlight text,
+  snippet text,
+  rank real,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_words text[];
+  v_query tsquery;
+  v_headline_options text := 'StartSel=«, StopSel=», MaxWords=30, MinWords=12, MaxFragments=2';
+  v_title_options text := 'StartSel=«, StopSel=», HighlightAll=true';
+BEGIN
+  v_words := regexp_split_to_array(
+    trim(regexp_replace(lower(coalesce(p_query, '')), '[^[:alnum:][:space:]]+', ' ', 'g')),
+    '\s+'
+  );
+  v_words := array_remove(v_words, '');
+
+  IF coalesce(array_length(v_words, 1), 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- Plain words must match as stemmed lexemes; the last word is still being typed
+  v_words[array_length(v_words, 1)] := v_words[array_length(v_words, 1)] || ':*';
+  v_query := to_tsquery('english', array_to_string(v_words, ' & '));
+
+  RETURN QUERY
+  SELECT r.result_type, r.id, r.title, r.title_highlight, r.snippet, r.rank, r.created_at
+  FROM (
+    SELECT
+      'game_idea'::text AS result_type, g.id, g.title,
+      ts_headline('english', g.title, v_query, v_title_options) AS title_highlight,
+      ts_headline('english', g.summary, v_query, v_headline_options) AS snippet,
+      ts_rank(g.search_vector, v_query) AS rank, g.created_at,
+      row_number() OVER (ORDER BY ts_rank(g.search_vector, v_query) DESC) AS position
+    FROM game_ideas g
+    WHERE g.search_vector @@ v_query
+
+    UNION ALL
+
+    SELECT
+      'media_post', m.id, m.title,
+      ts_headline('english', m.title, v_query, v_title_options),
+      ts_headline('english', m.content, v_query, v_headline_options),
+      ts_rank(m.search_vector, v_query), m.created_at,
+      row_number() OVER (ORDER BY ts_rank(m.search_vector, v_query) DESC)
+    FROM media_posts m
+    WHERE m.search_vector @@ v_query
+
+    UNION ALL
+
+    SELECT
+      'event', e.id, e.title,
+      ts_headline('english', e.title, v_query, v_title_options),
+      ts_headline('english', e.description, v_query, v_headline_options),
+      ts_rank(e.search_vector, v_query), e.created_at,
+      row_number() OVER (ORDER BY ts_rank(e.search_vector, v_query) DESC)
+    FROM events e
+    WHERE e.search_vector @@ v_query
+
+    UNION ALL
+
+    SELECT
+      'project', p.id, p.title,
+      ts_headline('english', p.title, v_query, v_title_options),
+      ts_headline('english', p.description, v_query, v_headline_options),
+      ts_rank(p.search_vector, v_query), p.created_at,
+      row_number() OVER (ORDER BY ts_rank(p.search_vector, v_query) DESC)
+    FROM projects p
+    WHERE p.search_vector @@ v_query
+
+    UNION ALL
+
+    SELECT
+      'profile', pr.id, pr.username,
+      ts_headline('english', pr.username, v_query, v_title_options),
+      ts_headline('english', coalesce(pr.bio, ''), v_query, v_headline_options),
+      ts_rank(pr.search_vector, v_query), pr.created_at,
+      row_number() OVER (ORDER BY ts_rank(pr.search_vector, v_query) DESC)
+    FROM profiles pr
+    WHERE pr.search_vector @@ v_query
+  ) r
+  WHERE r.position <= p_per_type_limit
+  ORDER BY r.result_type, r.rank DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_all(text, integer) TO authenticated;
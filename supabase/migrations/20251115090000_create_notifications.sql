@@ -0,0 +1,259 @@
+/*
+  # Notification center
+
+  ## New Tables
+
+  ### notifications
+  Activity addressed to a user, written by database triggers
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles): the recipient
+  - `actor_id` (uuid, references profiles, optional): who caused it
+  - `type` (text: idea_comment, demo_request, demo_request_answered, project_feedback,
+    role_application, event_reminder)
+  - `target_type` (text: game_idea, media_post, event, project)
+  - `target_id` (uuid)
+  - `message` (text)
+  - `read_at` (timestamptz, optional): null while unread
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - Add `reminder_sent_at` (timestamptz, optional) to events
+
+  ## Triggers
+  - Only `read_at` can change after a notification is created
+  - New comment on an idea notifies the idea's creator
+  - New demo request notifies the idea's creator
+  - Approving or rejecting a demo request notifies the requester
+  - New feedback on a project notifies the project's creator
+  - `queue_event_reminders()` notifies organizers of events starting within 24 hours;
+    it is scheduled every 15 minutes when pg_cron is available
+
+  ## Security
+  - Enable RLS on notifications
+  - Users can only read, mark as read and delete their own notifications
+  - Notifications are only created by the SECURITY DEFINER trigger functions
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  type text NOT NULL CHECK (type IN (
+    'idea_comment', 'demo_request', 'demo_request_answered',
+    'project_feedback', 'role_application', 'event_reminder'
+  )),
+  target_type text NOT NULL CHECK (target_type IN ('game_idea', 'media_post', 'event', 'project')),
+  target_id uuid NOT NULL,
+  message text NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_user_unread_idx ON notifications(user_id) WHERE read_at IS NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'reminder_sent_at'
+  ) THEN
+    ALTER TABLE events ADD COLUMN reminder_sent_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Marking a notification read may only change read_at
+CREATE OR REPLACE FUNCTION lock_notification_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.user_id := OLD.user_id;
+  -- Cleared by ON DELETE SET NULL when the actor's profile is deleted.
+  IF NEW.actor_id IS NOT NULL THEN
+    NEW.actor_id := OLD.actor_id;
+  END IF;
+  NEW.type := OLD.type;
+  NEW.target_type := OLD.target_type;
+  NEW.target_id := OLD.target_id;
+  NEW.message := OLD.message;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_lock_fields ON notifications;
+CREATE TRIGGER notifications_lock_fields
+  BEFORE UPDATE ON notifications
+  FOR EACH ROW EXECUTE FUNCTION lock_notification_fields();
+
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id uuid,
+  p_actor_id uuid,
+  p_type text,
+  p_target_type text,
+  p_target_id uuid,
+  p_message text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, target_type, target_id, message)
+  VALUES (p_user_id, p_actor_id, p_type, p_target_type, p_target_id, p_message);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_user(uuid, uuid, text, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- New comment on my idea
+CREATE OR REPLACE FUNCTION notify_idea_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_idea game_ideas%ROWTYPE;
+  v_actor text;
+BEGIN
+  SELECT * INTO v_idea FROM game_ideas WHERE id = NEW.idea_id;
+  SELECT username INTO v_actor FROM profiles WHERE id = NEW.user_id;
+
+  PERFORM notify_user(
+    v_idea.creator_id, NEW.user_id, 'idea_comment', 'game_idea', v_idea.id,
+    format('%s commented on your idea "%s"', v_actor, v_idea.title)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS idea_comments_notify ON idea_comments;
+CREATE TRIGGER idea_comments_notify
+  AFTER INSERT ON idea_comments
+  FOR EACH ROW EXECUTE FUNCTION notify_idea_comment();
+
+-- Demo request received / answered
+CREATE OR REPLACE FUNCTION notify_demo_request()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_idea game_ideas%ROWTYPE;
+  v_actor text;
+BEGIN
+  SELECT * INTO v_idea FROM game_ideas WHERE id = NEW.idea_id;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT username INTO v_actor FROM profiles WHERE id = NEW.requester_id;
+    PERFORM notify_user(
+      v_idea.creator_id, NEW.requester_id, 'demo_request', 'game_idea', v_idea.id,
+      format('%s requested the demo of "%s"', v_actor, v_idea.title)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+    SELECT username INTO v_actor FROM profiles WHERE id = v_idea.creator_id;
+    PERFORM notify_user(
+      NEW.requester_id, v_idea.creator_id, 'demo_request_answered', 'game_idea', v_idea.id,
+      format('%s %s your demo request for "%s"', v_actor, NEW.status, v_idea.title)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS demo_requests_notify ON demo_requests;
+CREATE TRIGGER demo_requests_notify
+  AFTER INSERT OR UPDATE OF status ON demo_requests
+  FOR EACH ROW EXECUTE FUNCTION notify_demo_request();
+
+-- Feedback on my project
+CREATE OR REPLACE FUNCTION notify_project_feedback()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project projects%ROWTYPE;
+  v_actor text;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = NEW.project_id;
+  SELECT username INTO v_actor FROM profiles WHERE id = NEW.user_id;
+
+  PERFORM notify_user(
+    v_project.creator_id, NEW.user_id, 'project_feedback', 'project', v_project.id,
+    format('%s left %s-star feedback on "%s"', v_actor, NEW.rating, v_project.title)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_feedback_notify ON project_feedback;
+CREATE TRIGGER project_feedback_notify
+  AFTER INSERT ON project_feedback
+  FOR EACH ROW EXECUTE FUNCTION notify_project_feedback();
+
+-- Event reminders for organizers
+CREATE OR REPLACE FUNCTION queue_event_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  FOR v_event IN
+    SELECT * FROM events
+    WHERE reminder_sent_at IS NULL
+      AND event_date > now()
+      AND event_date <= now() + interval '24 hours'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM notify_user(
+      v_event.organizer_id, NULL, 'event_reminder', 'event', v_event.id,
+      format('Your event "%s" starts %s', v_event.title, to_char(v_event.event_date, 'Mon DD "at" HH24:MI TZ'))
+    );
+    UPDATE events SET reminder_sent_at = now() WHERE id = v_event.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_event_reminders() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('event-reminders', '*/15 * * * *', 'SELECT public.queue_event_reminders()');
+  END IF;
+END $$;
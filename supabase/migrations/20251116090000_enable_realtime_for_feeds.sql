@@ -0,0 +1,32 @@
+/*
+  # Realtime updates for feed sections
+
+  ## Changes
+  - Add the feed tables to the `supabase_realtime` publication: game_ideas, media_posts,
+    events, projects, idea_comments, media_comments, project_feedback,
+    collaborator_requests and notifications
+
+  ## Notes
+  - Realtime checks each subscriber's SELECT policies, so clients only receive rows they
+    are allowed to read (e.g. their own notifications)
+  - On tables with RLS, delete events only carry the primary key, so clients match deleted
+    rows by `id` against what they have loaded
+*/
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'game_ideas', 'media_posts', 'events', 'projects', 'idea_comments',
+    'media_comments', 'project_feedback', 'collaborator_requests', 'notifications'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
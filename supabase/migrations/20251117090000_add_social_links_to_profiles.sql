@@ -0,0 +1,47 @@
+/*
+  # Social media links on profiles
+
+  ## Changes
+  - Add `social_links` (jsonb, default '{}') to profiles: a map of platform to profile URL,
+    e.g. {"youtube": "https://www.youtube.com/@name"}
+
+  ## Validation
+  - `is_valid_social_links(jsonb)` only accepts the platforms youtube, instagram, twitter and
+    linkedin, each with an https URL on that platform's domain
+  - Enforced with a check constraint so invalid links can't be saved from any client
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_social_links(p_links jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_links) = 'object'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(p_links) AS link(platform, url)
+      WHERE jsonb_typeof(link.url) <> 'string'
+        OR ((link.url #>> '{}') ~* (
+          CASE link.platform
+            WHEN 'youtube' THEN '^https://([a-z0-9-]+\.)?(youtube\.com|youtu\.be)/\S+$'
+            WHEN 'instagram' THEN '^https://([a-z0-9-]+\.)?instagram\.com/\S+$'
+            WHEN 'twitter' THEN '^https://([a-z0-9-]+\.)?(twitter\.com|x\.com)/\S+$'
+            WHEN 'linkedin' THEN '^https://([a-z0-9-]+\.)?linkedin\.com/\S+$'
+          END
+        )) IS NOT TRUE
+    );
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'social_links'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN social_links jsonb NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_social_links_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_social_links_check
+  CHECK (is_valid_social_links(social_links));
@@ -0,0 +1,47 @@
+/*
+  # Avatar uploads
+
+  ## Changes
+
+  ### avatars storage bucket (NEW)
+  - Public bucket for profile pictures, limited to 1 MB PNG, JPEG or WebP images
+  - Images are cropped and resized to squares in the browser before upload
+  - Objects live under `<user id>/<timestamp>.<ext>`; a new file is written on every change
+    so cached copies of the old avatar never linger
+
+  ## Security
+  - Anyone can view avatars
+  - Users can only upload, replace and delete files in their own folder
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 1048576, ARRAY['image/png', 'image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can replace own avatar"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
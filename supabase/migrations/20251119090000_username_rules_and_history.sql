@@ -0,0 +1,134 @@
+/*
+  # Editable usernames
+
+  ## Changes
+
+  ### profiles.username
+  - Must be 3-20 characters of letters, numbers and underscores (`profiles_username_format`)
+  - Unique regardless of case (`profiles_username_lower_idx`)
+  - Existing names that break either rule get their invalid characters stripped and a short
+    suffix from the user id appended, so they stay recognisable and unique
+
+  ### username_history (NEW)
+  One row per rename, used for rate limiting and for redirecting old profile links
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `old_username` (text)
+  - `changed_at` (timestamptz)
+
+  ## Triggers
+  - `track_username_change` records the old name on every rename and rejects a rename within
+    30 days of the previous one
+
+  ## Functions
+  - `is_username_available(p_username)`: format check plus case-insensitive lookup, ignoring
+    the caller's own profile. Callable before sign-in so the sign-up form can use it
+  - `resolve_username(p_username)`: the current username of whoever most recently gave up
+    `p_username`, or null
+
+  ## Security
+  - Enable RLS on username_history; signed-in users can read it, only the trigger writes it
+*/
+
+-- Normalise legacy names before the rules are enforced.
+UPDATE profiles
+SET username = left(coalesce(nullif(regexp_replace(username, '[^A-Za-z0-9_]', '', 'g'), ''), 'user'), 13)
+  || '_' || left(replace(id::text, '-', ''), 6)
+WHERE username !~ '^[A-Za-z0-9_]{3,20}$';
+
+UPDATE profiles p
+SET username = left(p.username, 13) || '_' || left(replace(p.id::text, '-', ''), 6)
+WHERE EXISTS (
+  SELECT 1 FROM profiles other
+  WHERE lower(other.username) = lower(p.username)
+    AND (other.created_at, other.id) < (p.created_at, p.id)
+);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_username_format;
+ALTER TABLE profiles ADD CONSTRAINT profiles_username_format
+  CHECK (username ~ '^[A-Za-z0-9_]{3,20}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_username_lower_idx ON profiles (lower(username));
+
+CREATE TABLE IF NOT EXISTS username_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  old_username text NOT NULL,
+  changed_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS username_history_user_idx ON username_history(user_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS username_history_old_username_idx ON username_history(lower(old_username), changed_at DESC);
+
+ALTER TABLE username_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view username history"
+  ON username_history FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION track_username_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_change timestamptz;
+BEGIN
+  IF NEW.username = OLD.username THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max(changed_at) INTO v_last_change
+  FROM username_history
+  WHERE user_id = OLD.id;
+
+  IF v_last_change > now() - interval '30 days' THEN
+    RAISE EXCEPTION 'You can change your username again on %',
+      to_char(v_last_change + interval '30 days', 'FMMonth FMDD, YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO username_history (user_id, old_username)
+  VALUES (OLD.id, OLD.username);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_track_username_change ON profiles;
+CREATE TRIGGER profiles_track_username_change
+  BEFORE UPDATE OF username ON profiles
+  FOR EACH ROW EXECUTE FUNCTION track_username_change();
+
+CREATE OR REPLACE FUNCTION is_username_available(p_username text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_username ~ '^[A-Za-z0-9_]{3,20}$'
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE lower(username) = lower(p_username)
+        AND id IS DISTINCT FROM auth.uid()
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_username_available(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION resolve_username(p_username text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT pr.username
+  FROM username_history h
+  JOIN profiles pr ON pr.id = h.user_id
+  WHERE lower(h.old_username) = lower(p_username)
+  ORDER BY h.changed_at DESC
+  LIMIT 1;
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Create profiles when users sign up
+
+  Profiles used to be inserted by the client right after `auth.signUp`, which left users
+  without a profile whenever email confirmation was on or the insert failed.
+
+  ## Triggers
+  - `handle_new_user` runs after a row is inserted into auth.users and creates the profile
+    from the `username` in the user metadata, with a DiceBear avatar seeded by that name
+  - If the name is missing, malformed or already taken, no profile is created and never
+    blocks the sign-up itself; the app then asks the user to pick a username
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_username text := NEW.raw_user_meta_data->>'username';
+BEGIN
+  IF v_username IS NULL OR v_username !~ '^[A-Za-z0-9_]{3,20}$' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO profiles (id, username, avatar_url)
+  VALUES (
+    NEW.id,
+    v_username,
+    'https://api.dicebear.com/7.x/avataaars/svg?seed=' || v_username
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
@@ -0,0 +1,65 @@
+/*
+  # Profiles for Discord, GitHub and Twitch sign-ins
+
+  Users can now sign in through OAuth providers. They never see the sign-up form, so the
+  profile has to come from what the provider tells us about them.
+
+  ## Triggers
+  - `handle_new_user` still prefers the `username` chosen on the sign-up form. Without one it
+    takes the provider's `user_name`, `preferred_username`, `full_name` or `name`, in that
+    order, strips characters usernames can't contain and cuts it to 20 characters
+  - A provider name that is already taken gets a short suffix from the user id, the same way
+    legacy names were made unique; a name chosen on the form is still never changed
+  - The provider's `avatar_url` or `picture` is used as the avatar, falling back to DiceBear
+  - As before, anything unusable leaves the profile missing and the app asks for a username
+
+  ## Notes
+  - Signing in with a provider whose verified email matches an existing account links the
+    identity to that account instead of creating a new user, so this trigger doesn't run
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_metadata jsonb := coalesce(NEW.raw_user_meta_data, '{}'::jsonb);
+  v_username text := v_metadata->>'username';
+  v_avatar_url text := coalesce(v_metadata->>'avatar_url', v_metadata->>'picture');
+BEGIN
+  IF v_username IS NULL THEN
+    v_username := left(regexp_replace(
+      coalesce(
+        v_metadata->>'user_name',
+        v_metadata->>'preferred_username',
+        v_metadata->>'full_name',
+        v_metadata->>'name',
+        ''
+      ),
+      '[^A-Za-z0-9_]', '', 'g'
+    ), 20);
+
+    IF EXISTS (SELECT 1 FROM profiles WHERE lower(username) = lower(v_username)) THEN
+      v_username := left(v_username, 13) || '_' || left(replace(NEW.id::text, '-', ''), 6);
+    END IF;
+  END IF;
+
+  IF v_username !~ '^[A-Za-z0-9_]{3,20}$' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO profiles (id, username, avatar_url)
+  VALUES (
+    NEW.id,
+    v_username,
+    coalesce(v_avatar_url, 'https://api.dicebear.com/7.x/avataaars/svg?seed=' || v_username)
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,336 @@
+/*
+  # Moderation: roles, content reports and hidden content
+
+  ## Changes
+
+  ### profiles.role
+  - `member` (default), `moderator` or `admin`
+  - Only admins can change roles, through `set_user_role`; `protect_profile_role` stops
+    anyone else from setting it with a normal profile insert or update
+
+  ### hidden_at / hidden_by
+  Added to game_ideas, idea_comments, media_posts, media_comments, events, projects and
+  project_feedback. Hidden rows disappear for everyone but moderators until restored
+  - `hidden_at` (timestamptz, optional)
+  - `hidden_by` (uuid, optional): the moderator's profile id. Not a foreign key, so that
+    embedding `profiles` in these tables stays unambiguous
+
+  ### reports (NEW)
+  A user's report against a piece of content
+  - `id` (uuid, primary key)
+  - `reporter_id` (uuid, references profiles)
+  - `content_type` (text: game_idea, idea_comment, media_post, media_comment, event,
+    project, project_feedback)
+  - `content_id` (uuid): not a foreign key, since it points into several tables and the
+    report outlives deleted content
+  - `reason` (text: spam, harassment, inappropriate, other)
+  - `details` (text, optional)
+  - `status` (text: open, resolved, dismissed)
+  - `resolved_by` (uuid, references profiles, optional)
+  - `resolved_at` (timestamptz, optional)
+  - `created_at` (timestamptz)
+  A user can only have one open report per piece of content
+
+  ## Functions
+  - `is_moderator()`: whether the caller is a moderator or admin
+  - `is_admin()`: whether the caller is an admin
+  - `set_user_role(p_username, p_role)`: admins only; admins can't change their own role
+
+  ## Triggers
+  - `protect_hidden_columns` on every table above rejects changes to hidden_at/hidden_by
+    by anyone but moderators, so authors can't restore their own hidden content
+  - `lock_moderated_fields` on the same tables keeps every other column unchanged when a
+    moderator updates someone else's row, so moderation can hide content but not edit it
+
+  ## Security
+  - The SELECT policies of the content tables now skip hidden rows unless the caller is a
+    moderator
+  - Moderators can delete rows in every content table, and update them to hide or restore
+  - Enable RLS on reports; users file reports as themselves and can read their own,
+    moderators can read and resolve all of them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'role'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN role text NOT NULL DEFAULT 'member'
+      CHECK (role IN ('member', 'moderator', 'admin'));
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND role IN ('moderator', 'admin')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_moderator() TO authenticated;
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+-- Requests without a signed-in user (the SQL editor, the sign-up trigger) are trusted, so
+-- the first admin can be appointed from the dashboard.
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.role <> 'member')
+    OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role) THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_role ON profiles;
+CREATE TRIGGER profiles_protect_role
+  BEFORE INSERT OR UPDATE OF role ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+CREATE OR REPLACE FUNCTION set_user_role(p_username text, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO v_user_id FROM profiles WHERE lower(username) = lower(p_username);
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user called %', p_username
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t change your own role'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE profiles SET role = p_role WHERE id = v_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_user_role(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION protect_hidden_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.hidden_at, NEW.hidden_by) IS DISTINCT FROM (OLD.hidden_at, OLD.hidden_by)
+    AND auth.uid() IS NOT NULL
+    AND NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can hide or restore content'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'game_ideas', 'idea_comments', 'media_posts', 'media_comments',
+    'events', 'projects', 'project_feedback'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = v_table AND column_name = 'hidden_at'
+    ) THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN hidden_at timestamptz', v_table);
+      EXECUTE format('ALTER TABLE %I ADD COLUMN hidden_by uuid', v_table);
+    END IF;
+
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', v_table || '_protect_hidden', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION protect_hidden_columns()',
+      v_table || '_protect_hidden', v_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Moderators can update content" ON %I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Moderators can update content" ON %I FOR UPDATE TO authenticated '
+      'USING (is_moderator()) WITH CHECK (is_moderator())',
+      v_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Moderators can delete content" ON %I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Moderators can delete content" ON %I FOR DELETE TO authenticated '
+      'USING (is_moderator())',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- TG_ARGV[0] names the column holding the owner of the row. Updates made by the database
+-- itself, such as vote counters, run as the function owner rather than as the client and
+-- are left alone.
+CREATE OR REPLACE FUNCTION lock_moderated_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_owner_id uuid;
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  EXECUTE format('SELECT ($1).%I', TG_ARGV[0]) USING OLD INTO v_owner_id;
+  IF auth.uid() IS DISTINCT FROM v_owner_id THEN
+    NEW := jsonb_populate_record(
+      OLD,
+      jsonb_build_object('hidden_at', NEW.hidden_at, 'hidden_by', NEW.hidden_by)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+  v_owner_column text;
+BEGIN
+  FOR v_table, v_owner_column IN
+    SELECT * FROM (VALUES
+      ('game_ideas', 'creator_id'), ('idea_comments', 'user_id'),
+      ('media_posts', 'author_id'), ('media_comments', 'user_id'),
+      ('events', 'organizer_id'), ('projects', 'creator_id'),
+      ('project_feedback', 'user_id')
+    ) AS t(table_name, owner_column)
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', v_table || '_lock_moderated_fields', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE UPDATE ON %I FOR EACH ROW EXECUTE FUNCTION lock_moderated_fields(%L)',
+      v_table || '_lock_moderated_fields', v_table, v_owner_column
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Anyone can view game ideas" ON game_ideas;
+CREATE POLICY "Anyone can view game ideas"
+  ON game_ideas FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON idea_comments;
+CREATE POLICY "Anyone can view comments"
+  ON idea_comments FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+DROP POLICY IF EXISTS "Anyone can view media posts" ON media_posts;
+CREATE POLICY "Anyone can view media posts"
+  ON media_posts FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+DROP POLICY IF EXISTS "Anyone can view media comments" ON media_comments;
+CREATE POLICY "Anyone can view media comments"
+  ON media_comments FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+DROP POLICY IF EXISTS "Anyone can view events" ON events;
+CREATE POLICY "Anyone can view events"
+  ON events FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+DROP POLICY IF EXISTS "Anyone can view projects" ON projects;
+CREATE POLICY "Anyone can view projects"
+  ON projects FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+DROP POLICY IF EXISTS "Anyone can view feedback" ON project_feedback;
+CREATE POLICY "Anyone can view feedback"
+  ON project_feedback FOR SELECT
+  TO authenticated
+  USING (hidden_at IS NULL OR is_moderator());
+
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  content_type text NOT NULL CHECK (content_type IN (
+    'game_idea', 'idea_comment', 'media_post', 'media_comment',
+    'event', 'project', 'project_feedback'
+  )),
+  content_id uuid NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'other')),
+  details text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reports_status_created_idx ON reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS reports_content_idx ON reports(content_type, content_id);
+CREATE UNIQUE INDEX IF NOT EXISTS reports_one_open_per_reporter_idx
+  ON reports(reporter_id, content_type, content_id)
+  WHERE status = 'open';
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reports"
+  ON reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id OR is_moderator());
+
+CREATE POLICY "Users can file reports"
+  ON reports FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+CREATE POLICY "Moderators can resolve reports"
+  ON reports FOR UPDATE
+  TO authenticated
+  USING (is_moderator())
+  WITH CHECK (is_moderator());
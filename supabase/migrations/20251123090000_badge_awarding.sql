@@ -0,0 +1,294 @@
+/*
+  # Badge awarding
+
+  ## New Tables
+
+  ### badge_definitions
+  - `id` (text, primary key): slug such as `trusted_editor`
+  - `name` (text, unique): what profiles.badges and the UI show
+  - `description` (text)
+  - `icon` (text): icon key understood by the client, e.g. `award`, `rocket`
+  - `criteria_type` (text), counting only content that moderators have not hidden:
+    - `upvoted_posts`: media posts with more upvotes than downvotes
+    - `released_projects`: projects in the Released stage
+    - `tournaments_organized`: events of type Tournament that have taken place, not counting
+      events dated before they were posted
+    - `ideas_shared`: game ideas with more upvotes than downvotes
+    - `manual`: only awarded by admins
+  - `threshold` (integer): how many are needed; ignored for manual badges
+  - `created_at` (timestamptz)
+
+  ### user_badges
+  - `user_id` (uuid, references profiles)
+  - `badge_id` (text, references badge_definitions)
+  - `awarded_by` (uuid, optional): the admin who awarded it, null when earned automatically
+  - `awarded_at` (timestamptz)
+  Primary key (user_id, badge_id)
+
+  ## Changes
+  - profiles.badges becomes a copy of the user's badge names in the order they were
+    awarded, maintained by `sync_profile_badges`. Direct writes are ignored, the same way
+    vote counters are protected
+  - Badge names already in profiles.badges get a manual definition and a user_badges row
+
+  ## Functions
+  - `badge_criteria_count(p_user_id, p_criteria_type)`: how much qualifying content the user
+    has for an automatic criteria type
+  - `award_automatic_badges(p_user_id)`: grants every automatic badge the user now
+    qualifies for
+  - `award_all_badges()`: re-evaluates every user, revoking automatic badges whose criteria
+    no longer hold (for example after content was hidden or deleted) and granting new ones.
+    Run once here and nightly when pg_cron is available, so new or changed definitions and
+    events that have since taken place reach existing users. Badges awarded by an admin are
+    never revoked
+
+  ## Triggers
+  - New, voted, restored or updated media posts, projects, events and game ideas re-check
+    their owner's badges. Triggers only grant; revoking is left to the nightly run
+
+  ## Security
+  - Enable RLS on both tables; everyone signed in can read them
+  - Only admins can create badge definitions and award or revoke badges
+*/
+
+CREATE TABLE IF NOT EXISTS badge_definitions (
+  id text PRIMARY KEY,
+  name text UNIQUE NOT NULL,
+  description text NOT NULL DEFAULT '',
+  icon text NOT NULL DEFAULT 'award',
+  criteria_type text NOT NULL CHECK (criteria_type IN (
+    'upvoted_posts', 'released_projects', 'tournaments_organized', 'ideas_shared', 'manual'
+  )),
+  threshold integer NOT NULL DEFAULT 1 CHECK (threshold > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS user_badges (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  badge_id text REFERENCES badge_definitions(id) ON DELETE CASCADE NOT NULL,
+  awarded_by uuid,
+  awarded_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, badge_id)
+);
+
+ALTER TABLE badge_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_badges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view badge definitions"
+  ON badge_definitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage badge definitions"
+  ON badge_definitions FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can view awarded badges"
+  ON user_badges FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can award badges"
+  ON user_badges FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() AND awarded_by = auth.uid());
+
+CREATE POLICY "Admins can revoke badges"
+  ON user_badges FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO badge_definitions (id, name, description, icon, criteria_type, threshold) VALUES
+  ('trusted_editor', 'Trusted Editor', 'Published 10 community media posts that readers upvoted', 'award', 'upvoted_posts', 10),
+  ('first_release', 'First Release', 'Took a project all the way to release', 'rocket', 'released_projects', 1),
+  ('tournament_organizer', 'Tournament Organizer', 'Organized a tournament for the community', 'trophy', 'tournaments_organized', 1),
+  ('idea_machine', 'Idea Machine', 'Shared 10 game ideas the community upvoted', 'lightbulb', 'ideas_shared', 10),
+  ('community_hero', 'Community Hero', 'Recognised by the team for helping others', 'heart', 'manual', 1)
+ON CONFLICT (id) DO NOTHING;
+
+-- Keep badges that were handed out by hand before this migration.
+INSERT INTO badge_definitions (id, name, criteria_type)
+SELECT DISTINCT
+  trim(both '_' from regexp_replace(lower(b.name), '[^a-z0-9]+', '_', 'g')),
+  b.name,
+  'manual'
+FROM profiles p, unnest(p.badges) AS b(name)
+WHERE NOT EXISTS (SELECT 1 FROM badge_definitions d WHERE d.name = b.name)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO user_badges (user_id, badge_id, awarded_at)
+SELECT p.id, d.id, p.created_at
+FROM profiles p, unnest(p.badges) AS b(name)
+JOIN badge_definitions d ON d.name = b.name
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION sync_profile_badges()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := COALESCE(NEW.user_id, OLD.user_id);
+BEGIN
+  PERFORM set_config('gamesocio.badge_sync', 'on', true);
+
+  UPDATE profiles
+  SET badges = COALESCE((
+    SELECT array_agg(d.name ORDER BY ub.awarded_at, d.name)
+    FROM user_badges ub
+    JOIN badge_definitions d ON d.id = ub.badge_id
+    WHERE ub.user_id = v_user_id
+  ), '{}')
+  WHERE id = v_user_id;
+
+  PERFORM set_config('gamesocio.badge_sync', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_badges_sync_profile ON user_badges;
+CREATE TRIGGER user_badges_sync_profile
+  AFTER INSERT OR DELETE ON user_badges
+  FOR EACH ROW EXECUTE FUNCTION sync_profile_badges();
+
+-- Ignore direct writes to profiles.badges; only sync_profile_badges may change them
+CREATE OR REPLACE FUNCTION protect_profile_badges()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('gamesocio.badge_sync', true) IS DISTINCT FROM 'on' THEN
+    NEW.badges := CASE WHEN TG_OP = 'INSERT' THEN '{}' ELSE OLD.badges END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_badges ON profiles;
+CREATE TRIGGER profiles_protect_badges
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_badges();
+
+CREATE OR REPLACE FUNCTION badge_criteria_count(p_user_id uuid, p_criteria_type text)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_criteria_type
+    WHEN 'upvoted_posts' THEN (
+      SELECT count(*) FROM media_posts
+      WHERE author_id = p_user_id AND upvotes > downvotes AND hidden_at IS NULL
+    )
+    WHEN 'released_projects' THEN (
+      SELECT count(*) FROM projects
+      WHERE creator_id = p_user_id AND stage = 'Released' AND hidden_at IS NULL
+    )
+    WHEN 'tournaments_organized' THEN (
+      SELECT count(*) FROM events
+      WHERE organizer_id = p_user_id AND event_type = 'Tournament' AND hidden_at IS NULL
+        AND event_date <= now() AND event_date >= created_at
+    )
+    WHEN 'ideas_shared' THEN (
+      SELECT count(*) FROM game_ideas
+      WHERE creator_id = p_user_id AND upvotes > downvotes AND hidden_at IS NULL
+    )
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION badge_criteria_count(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION award_automatic_badges(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_badges (user_id, badge_id)
+  SELECT p_user_id, d.id
+  FROM badge_definitions d
+  WHERE d.criteria_type <> 'manual'
+    AND NOT EXISTS (
+      SELECT 1 FROM user_badges ub WHERE ub.user_id = p_user_id AND ub.badge_id = d.id
+    )
+    AND d.threshold <= badge_criteria_count(p_user_id, d.criteria_type)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION award_automatic_badges(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION award_all_badges()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  DELETE FROM user_badges ub
+  USING badge_definitions d
+  WHERE d.id = ub.badge_id
+    AND d.criteria_type <> 'manual'
+    AND ub.awarded_by IS NULL
+    AND d.threshold > badge_criteria_count(ub.user_id, d.criteria_type);
+
+  FOR v_user_id IN SELECT id FROM profiles LOOP
+    PERFORM award_automatic_badges(v_user_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION award_all_badges() FROM PUBLIC, anon, authenticated;
+
+-- TG_ARGV[0] names the column holding the owner of the row.
+CREATE OR REPLACE FUNCTION award_badges_for_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  EXECUTE format('SELECT ($1).%I', TG_ARGV[0]) USING NEW INTO v_user_id;
+  PERFORM award_automatic_badges(v_user_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS media_posts_award_badges ON media_posts;
+CREATE TRIGGER media_posts_award_badges
+  AFTER INSERT OR UPDATE OF upvotes, downvotes, hidden_at ON media_posts
+  FOR EACH ROW EXECUTE FUNCTION award_badges_for_owner('author_id');
+
+DROP TRIGGER IF EXISTS projects_award_badges ON projects;
+CREATE TRIGGER projects_award_badges
+  AFTER INSERT OR UPDATE OF stage, hidden_at ON projects
+  FOR EACH ROW EXECUTE FUNCTION award_badges_for_owner('creator_id');
+
+DROP TRIGGER IF EXISTS events_award_badges ON events;
+CREATE TRIGGER events_award_badges
+  AFTER INSERT OR UPDATE OF event_type, event_date, hidden_at ON events
+  FOR EACH ROW EXECUTE FUNCTION award_badges_for_owner('organizer_id');
+
+DROP TRIGGER IF EXISTS game_ideas_award_badges ON game_ideas;
+CREATE TRIGGER game_ideas_award_badges
+  AFTER INSERT OR UPDATE OF upvotes, downvotes, hidden_at ON game_ideas
+  FOR EACH ROW EXECUTE FUNCTION award_badges_for_owner('creator_id');
+
+SELECT award_all_badges();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('award-badges', '0 3 * * *', 'SELECT public.award_all_badges()');
+  END IF;
+END $$;
@@ -0,0 +1,283 @@
+/*
+  # Reputation and leaderboard
+
+  ## Points
+  - 2 for every upvote received on a game idea or media post, not counting your own
+  - 1-5 for every rating received on a project (the number of stars)
+  - 1 for every piece of project feedback given
+  - 5 for every event organized, once its date has passed. Events dated before they were
+    posted don't count, so events can't be created and deleted for points
+  Points are dated by when they were earned (the vote, the feedback or the event's date),
+  so the leaderboard can be limited to recent activity. Hidden content earns nothing, and
+  deleting or hiding content takes its points back
+
+  ## Changes
+  - Add `reputation` (integer) to profiles: the all-time total, kept up to date by
+    triggers and protected from direct writes like the vote counters
+
+  ## Functions
+  - `reputation_points(p_since, p_user_id)`: points per user earned since `p_since`,
+    optionally for a single user; the single place the rules above are written down
+  - `refresh_reputation(p_user_id)`: recomputes one profile's total
+  - `refresh_all_reputation()`: recomputes every total; run once here and nightly when
+    pg_cron is available, so events that have since taken place are counted
+  - `get_leaderboard(p_period, p_limit)`: top users for `week`, `month` or `all`, with
+    rank, points and profile details
+
+  ## Triggers
+  - Vote counter changes, hiding and deletion on game_ideas and media_posts refresh the owner
+  - New, changed, hidden or deleted project feedback refreshes the project creator and the
+    author
+  - New, rescheduled, hidden or deleted events refresh the organizer; hidden or deleted
+    projects refresh their creator
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'reputation'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN reputation integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS profiles_reputation_idx ON profiles(reputation DESC);
+CREATE INDEX IF NOT EXISTS project_feedback_user_idx ON project_feedback(user_id);
+CREATE INDEX IF NOT EXISTS events_organizer_idx ON events(organizer_id);
+
+CREATE OR REPLACE FUNCTION reputation_points(
+  p_since timestamptz DEFAULT '-infinity',
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (user_id uuid, points bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.user_id, sum(s.points) AS points
+  FROM (
+    SELECT g.creator_id AS user_id, 2 AS points
+    FROM votes v
+    JOIN game_ideas g ON v.target_type = 'game_idea' AND g.id = v.target_id
+    WHERE v.value = 1 AND v.created_at >= p_since
+      AND v.user_id <> g.creator_id
+      AND g.hidden_at IS NULL
+      AND (p_user_id IS NULL OR g.creator_id = p_user_id)
+
+    UNION ALL
+
+    SELECT m.author_id, 2
+    FROM votes v
+    JOIN media_posts m ON v.target_type = 'media_post' AND m.id = v.target_id
+    WHERE v.value = 1 AND v.created_at >= p_since
+      AND v.user_id <> m.author_id
+      AND m.hidden_at IS NULL
+      AND (p_user_id IS NULL OR m.author_id = p_user_id)
+
+    UNION ALL
+
+    SELECT p.creator_id, f.rating
+    FROM project_feedback f
+    JOIN projects p ON p.id = f.project_id
+    WHERE f.created_at >= p_since
+      AND f.hidden_at IS NULL
+      AND p.hidden_at IS NULL
+      AND (p_user_id IS NULL OR p.creator_id = p_user_id)
+
+    UNION ALL
+
+    SELECT f.user_id, 1
+    FROM project_feedback f
+    WHERE f.created_at >= p_since
+      AND f.hidden_at IS NULL
+      AND (p_user_id IS NULL OR f.user_id = p_user_id)
+
+    UNION ALL
+
+    SELECT e.organizer_id, 5
+    FROM events e
+    WHERE e.event_date >= p_since
+      AND e.event_date <= now()
+      AND e.event_date >= e.created_at
+      AND e.hidden_at IS NULL
+      AND (p_user_id IS NULL OR e.organizer_id = p_user_id)
+  ) s
+  GROUP BY s.user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reputation_points(timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_reputation(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('gamesocio.reputation_update', 'on', true);
+
+  UPDATE profiles
+  SET reputation = COALESCE((SELECT r.points FROM reputation_points('-infinity', p_user_id) r), 0)
+  WHERE id = p_user_id;
+
+  PERFORM set_config('gamesocio.reputation_update', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_reputation(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_all_reputation()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('gamesocio.reputation_update', 'on', true);
+
+  UPDATE profiles pr
+  SET reputation = COALESCE(r.points, 0)
+  FROM profiles p
+  LEFT JOIN reputation_points() r ON r.user_id = p.id
+  WHERE p.id = pr.id AND pr.reputation IS DISTINCT FROM COALESCE(r.points, 0);
+
+  PERFORM set_config('gamesocio.reputation_update', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_all_reputation() FROM PUBLIC, anon, authenticated;
+
+-- Ignore direct writes to profiles.reputation; only refresh_reputation may change it
+CREATE OR REPLACE FUNCTION protect_profile_reputation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('gamesocio.reputation_update', true) IS DISTINCT FROM 'on' THEN
+    NEW.reputation := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.reputation END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_reputation ON profiles;
+CREATE TRIGGER profiles_protect_reputation
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_reputation();
+
+-- TG_ARGV[0] names the column holding the owner of the row.
+CREATE OR REPLACE FUNCTION refresh_owner_reputation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    EXECUTE format('SELECT ($1).%I', TG_ARGV[0]) USING OLD INTO v_user_id;
+  ELSE
+    EXECUTE format('SELECT ($1).%I', TG_ARGV[0]) USING NEW INTO v_user_id;
+  END IF;
+
+  PERFORM refresh_reputation(v_user_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS game_ideas_refresh_reputation ON game_ideas;
+CREATE TRIGGER game_ideas_refresh_reputation
+  AFTER UPDATE OF upvotes, hidden_at OR DELETE ON game_ideas
+  FOR EACH ROW EXECUTE FUNCTION refresh_owner_reputation('creator_id');
+
+DROP TRIGGER IF EXISTS media_posts_refresh_reputation ON media_posts;
+CREATE TRIGGER media_posts_refresh_reputation
+  AFTER UPDATE OF upvotes, hidden_at OR DELETE ON media_posts
+  FOR EACH ROW EXECUTE FUNCTION refresh_owner_reputation('author_id');
+
+-- Feedback deleted along with its project can no longer find the creator; hiding a project
+-- takes back the ratings it received.
+DROP TRIGGER IF EXISTS projects_refresh_reputation ON projects;
+CREATE TRIGGER projects_refresh_reputation
+  AFTER UPDATE OF hidden_at OR DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION refresh_owner_reputation('creator_id');
+
+DROP TRIGGER IF EXISTS events_refresh_reputation ON events;
+CREATE TRIGGER events_refresh_reputation
+  AFTER INSERT OR UPDATE OF event_date, hidden_at OR DELETE ON events
+  FOR EACH ROW EXECUTE FUNCTION refresh_owner_reputation('organizer_id');
+
+CREATE OR REPLACE FUNCTION refresh_feedback_reputation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_project_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_user_id := OLD.user_id;
+    v_project_id := OLD.project_id;
+  ELSE
+    v_user_id := NEW.user_id;
+    v_project_id := NEW.project_id;
+  END IF;
+
+  PERFORM refresh_reputation(v_user_id);
+  PERFORM refresh_reputation(creator_id) FROM projects WHERE id = v_project_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_feedback_refresh_reputation ON project_feedback;
+CREATE TRIGGER project_feedback_refresh_reputation
+  AFTER INSERT OR UPDATE OF rating, hidden_at OR DELETE ON project_feedback
+  FOR EACH ROW EXECUTE FUNCTION refresh_feedback_reputation();
+
+CREATE OR REPLACE FUNCTION get_leaderboard(p_period text DEFAULT 'week', p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  rank bigint,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  badges text[],
+  points bigint,
+  reputation integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    rank() OVER (ORDER BY r.points DESC),
+    pr.id, pr.username, pr.avatar_url, pr.badges, r.points, pr.reputation
+  FROM reputation_points(
+    CASE p_period
+      WHEN 'week' THEN now() - interval '7 days'
+      WHEN 'month' THEN now() - interval '30 days'
+      ELSE '-infinity'::timestamptz
+    END
+  ) r
+  JOIN profiles pr ON pr.id = r.user_id
+  WHERE r.points > 0
+  ORDER BY r.points DESC, pr.username
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard(text, integer) TO authenticated;
+
+-- Backfill existing totals.
+SELECT refresh_all_reputation();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-reputation', '30 3 * * *', 'SELECT public.refresh_all_reputation()');
+  END IF;
+END $$;
@@ -0,0 +1,105 @@
+/*
+  # Follows and the Following feed
+
+  ## New Tables
+
+  ### follows
+  - `follower_id` (uuid, references profiles): who follows
+  - `following_id` (uuid, references profiles): who is followed
+  - `created_at` (timestamptz)
+  Primary key (follower_id, following_id); users can't follow themselves
+
+  ## Functions
+  - `get_following_feed(p_before, p_before_id, p_limit)`: game ideas, media posts,
+    projects and events from creators the caller follows, newest first. Pass the
+    `created_at` and `id` of the last item received to get the next page; ties on
+    `created_at` are broken by `id` so no item is skipped or repeated
+
+  ## Security
+  - Enable RLS on follows; everyone signed in can see who follows whom
+  - Users can only follow and unfollow as themselves
+  - get_following_feed runs with the caller's permissions, so hidden content stays hidden
+*/
+
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  following_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS follows_following_idx ON follows(following_id);
+CREATE INDEX IF NOT EXISTS game_ideas_creator_created_idx ON game_ideas(creator_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS media_posts_author_created_idx ON media_posts(author_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS projects_creator_created_idx ON projects(creator_id, created_at DESC);
+
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view follows"
+  ON follows FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can follow others"
+  ON follows FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow"
+  ON follows FOR DELETE
+  TO authenticated
+  USING (auth.uid() = follower_id);
+
+CREATE OR REPLACE FUNCTION get_following_feed(
+  p_before timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  item_type text,
+  id uuid,
+  title text,
+  summary text,
+  label text,
+  event_date timestamptz,
+  created_at timestamptz,
+  author_id uuid,
+  author_username text,
+  author_avatar_url text,
+  author_reputation integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.item_type, f.id, f.title, f.summary, f.label, f.event_date, f.created_at,
+    pr.id, pr.username, pr.avatar_url, pr.reputation
+  FROM (
+    SELECT 'game_idea'::text AS item_type, g.id, g.title, g.summary, g.genre AS label,
+      NULL::timestamptz AS event_date, g.created_at, g.creator_id AS author_id
+    FROM game_ideas g
+
+    UNION ALL
+
+    SELECT 'media_post', m.id, m.title, m.content, m.category, NULL, m.created_at, m.author_id
+    FROM media_posts m
+
+    UNION ALL
+
+    SELECT 'project', p.id, p.title, p.description, p.stage, NULL, p.created_at, p.creator_id
+    FROM projects p
+
+    UNION ALL
+
+    SELECT 'event', e.id, e.title, e.description, e.event_type, e.event_date, e.created_at, e.organizer_id
+    FROM events e
+  ) f
+  JOIN follows fo ON fo.following_id = f.author_id AND fo.follower_id = auth.uid()
+  JOIN profiles pr ON pr.id = f.author_id
+  WHERE p_before IS NULL OR (f.created_at, f.id) < (p_before, p_before_id)
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_following_feed(timestamptz, uuid, integer) TO authenticated;
@@ -0,0 +1,303 @@
+/*
+  # Role applications and project members
+
+  ## New Tables
+
+  ### applications
+  A user's application for a role posted in collaborator_requests
+  - `id` (uuid, primary key)
+  - `request_id` (uuid, references collaborator_requests)
+  - `applicant_id` (uuid, references profiles)
+  - `message` (text): the applicant's pitch
+  - `portfolio_links` (text[]): up to 5 http(s) links to previous work
+  - `status` (text: pending, accepted, declined)
+  - `created_at` (timestamptz)
+  - `responded_at` (timestamptz, optional): when the project owner accepted or declined
+
+  ### project_members
+  Collaborators who joined a project through an accepted application
+  - `id` (uuid, primary key). A surrogate key rather than (project_id, user_id), so PostgREST
+    does not treat the table as a projects-profiles join and make the existing
+    `profiles(...)` embeds on projects ambiguous
+  - `project_id` (uuid, references projects)
+  - `user_id` (uuid, references profiles)
+  - `role_type` (text): the role they were accepted for
+  - `joined_at` (timestamptz)
+
+  ## Changes
+  - notifications.type also allows `role_application_answered`
+
+  ## Functions
+  - `is_valid_web_links(text[])`: true when every link is an http(s) URL. Used in a check
+    constraint so links rendered as hrefs can't carry javascript: or data: URLs
+
+  ## Triggers
+  - Only `status` and `responded_at` can change after an application is created
+  - Accepting an application adds the applicant to project_members; declining it afterwards
+    removes them again, unless another of their applications to the project is still
+    accepted, in which case they keep that role
+  - A member who leaves or is removed has their accepted applications to the project marked
+    declined, so the application list matches the team
+  - A new application notifies the project's creator, and an answer notifies the applicant
+
+  ## Security
+  - Enable RLS on both tables
+  - Applicants see their own applications, project creators see the ones for their projects
+  - Users can apply once per role, not to their own projects and not while already a member
+  - Project creators can accept or decline; applicants can withdraw pending applications
+  - Everyone signed in can see project members; members are only added by the trigger and
+    can leave, or be removed by the project's creator
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_web_links(p_links text[])
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM unnest(p_links) AS link(url)
+    WHERE link.url IS NULL OR link.url !~* '^https?://'
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS applications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid REFERENCES collaborator_requests(id) ON DELETE CASCADE NOT NULL,
+  applicant_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  message text NOT NULL,
+  portfolio_links text[] DEFAULT '{}' NOT NULL
+    CHECK (cardinality(portfolio_links) <= 5 AND is_valid_web_links(portfolio_links)),
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_at timestamptz DEFAULT now(),
+  responded_at timestamptz,
+  UNIQUE (request_id, applicant_id)
+);
+
+CREATE INDEX IF NOT EXISTS applications_applicant_idx ON applications(applicant_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS project_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role_type text NOT NULL,
+  joined_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS project_members_user_idx ON project_members(user_id);
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'idea_comment', 'demo_request', 'demo_request_answered',
+  'project_feedback', 'role_application', 'role_application_answered', 'event_reminder'
+));
+
+ALTER TABLE applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Applicants and project creators can view applications"
+  ON applications FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = applicant_id
+    OR auth.uid() IN (
+      SELECT p.creator_id FROM collaborator_requests r
+      JOIN projects p ON p.id = r.project_id
+      WHERE r.id = request_id
+    )
+  );
+
+CREATE POLICY "Users can apply for roles"
+  ON applications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = applicant_id
+    AND status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM collaborator_requests r
+      JOIN projects p ON p.id = r.project_id
+      WHERE r.id = request_id
+        AND (
+          p.creator_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM project_members m
+            WHERE m.project_id = p.id AND m.user_id = auth.uid()
+          )
+        )
+    )
+  );
+
+CREATE POLICY "Project creators can answer applications"
+  ON applications FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT p.creator_id FROM collaborator_requests r
+      JOIN projects p ON p.id = r.project_id
+      WHERE r.id = request_id
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT p.creator_id FROM collaborator_requests r
+      JOIN projects p ON p.id = r.project_id
+      WHERE r.id = request_id
+    )
+  );
+
+CREATE POLICY "Applicants can withdraw pending applications"
+  ON applications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = applicant_id AND status = 'pending');
+
+CREATE POLICY "Anyone can view project members"
+  ON project_members FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Members can leave and creators can remove members"
+  ON project_members FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR auth.uid() IN (SELECT creator_id FROM projects WHERE id = project_id)
+  );
+
+-- Answering an application may only change its status
+CREATE OR REPLACE FUNCTION lock_application_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.request_id := OLD.request_id;
+  NEW.applicant_id := OLD.applicant_id;
+  NEW.message := OLD.message;
+  NEW.portfolio_links := OLD.portfolio_links;
+  NEW.created_at := OLD.created_at;
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.responded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS applications_lock_fields ON applications;
+CREATE TRIGGER applications_lock_fields
+  BEFORE UPDATE ON applications
+  FOR EACH ROW EXECUTE FUNCTION lock_application_fields();
+
+CREATE OR REPLACE FUNCTION sync_project_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request collaborator_requests%ROWTYPE;
+  v_other_role text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_request FROM collaborator_requests WHERE id = NEW.request_id;
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO project_members (project_id, user_id, role_type)
+    VALUES (v_request.project_id, NEW.applicant_id, v_request.role_type)
+    ON CONFLICT (project_id, user_id) DO UPDATE SET role_type = EXCLUDED.role_type;
+  ELSIF OLD.status = 'accepted' THEN
+    -- Members accepted for more than one role keep the most recent one that still stands.
+    SELECT r.role_type INTO v_other_role
+    FROM applications a
+    JOIN collaborator_requests r ON r.id = a.request_id
+    WHERE r.project_id = v_request.project_id
+      AND a.applicant_id = NEW.applicant_id
+      AND a.status = 'accepted'
+      AND a.id <> NEW.id
+    ORDER BY a.responded_at DESC NULLS LAST
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE project_members SET role_type = v_other_role
+      WHERE project_id = v_request.project_id AND user_id = NEW.applicant_id;
+    ELSE
+      DELETE FROM project_members
+      WHERE project_id = v_request.project_id AND user_id = NEW.applicant_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS applications_sync_member ON applications;
+CREATE TRIGGER applications_sync_member
+  AFTER UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION sync_project_member();
+
+-- Leaving or being removed ends the applications that made someone a member. Nothing is
+-- updated when the project or the user is being deleted, since those rows cascade away.
+CREATE OR REPLACE FUNCTION release_member_applications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE applications a
+  SET status = 'declined'
+  FROM collaborator_requests r
+  JOIN projects p ON p.id = r.project_id
+  WHERE a.request_id = r.id
+    AND r.project_id = OLD.project_id
+    AND a.applicant_id = OLD.user_id
+    AND a.status = 'accepted'
+    AND EXISTS (SELECT 1 FROM profiles WHERE id = OLD.user_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_members_release_applications ON project_members;
+CREATE TRIGGER project_members_release_applications
+  AFTER DELETE ON project_members
+  FOR EACH ROW EXECUTE FUNCTION release_member_applications();
+
+-- Application received / answered
+CREATE OR REPLACE FUNCTION notify_role_application()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request collaborator_requests%ROWTYPE;
+  v_project projects%ROWTYPE;
+  v_actor text;
+BEGIN
+  SELECT * INTO v_request FROM collaborator_requests WHERE id = NEW.request_id;
+  SELECT * INTO v_project FROM projects WHERE id = v_request.project_id;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT username INTO v_actor FROM profiles WHERE id = NEW.applicant_id;
+    PERFORM notify_user(
+      v_project.creator_id, NEW.applicant_id, 'role_application', 'project', v_project.id,
+      format('%s applied for the %s role on "%s"', v_actor, v_request.role_type, v_project.title)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('accepted', 'declined')
+    -- Members who leave a project are not told their own application was declined.
+    AND auth.uid() IS DISTINCT FROM NEW.applicant_id
+  THEN
+    SELECT username INTO v_actor FROM profiles WHERE id = v_project.creator_id;
+    PERFORM notify_user(
+      NEW.applicant_id, v_project.creator_id, 'role_application_answered', 'project', v_project.id,
+      format('%s %s your application for the %s role on "%s"', v_actor, NEW.status, v_request.role_type, v_project.title)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS applications_notify ON applications;
+CREATE TRIGGER applications_notify
+  AFTER INSERT OR UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION notify_role_application();
@@ -0,0 +1,157 @@
+/*
+  # Collaborator request status and ownership
+
+  collaborator_requests had select, insert and delete policies but no update policy, so
+  posted roles could never be edited or closed.
+
+  ## Changes
+
+  ### collaborator_requests
+  - Add `status` (text: open, filled, closed, default open)
+  - Add `updated_at` (timestamptz)
+
+  ## Triggers
+  - `project_id` and `created_at` cannot change after a role is posted
+  - Accepting an application marks its role as filled; once no accepted application is left
+    for a filled role, because it was declined or the member left, the role reopens
+
+  ## Security
+  - Insert, update and delete policies are recreated so every write is checked against the
+    parent project's `creator_id`
+  - Applications can only be sent for open roles
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'collaborator_requests' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE collaborator_requests
+      ADD COLUMN status text DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'filled', 'closed'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'collaborator_requests' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE collaborator_requests ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS collaborator_requests_project_idx ON collaborator_requests(project_id);
+
+ALTER TABLE collaborator_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Project creators can create requests" ON collaborator_requests;
+DROP POLICY IF EXISTS "Project creators can update requests" ON collaborator_requests;
+DROP POLICY IF EXISTS "Project creators can delete requests" ON collaborator_requests;
+
+CREATE POLICY "Project creators can create requests"
+  ON collaborator_requests FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() IN (SELECT creator_id FROM projects WHERE id = project_id));
+
+CREATE POLICY "Project creators can update requests"
+  ON collaborator_requests FOR UPDATE
+  TO authenticated
+  USING (auth.uid() IN (SELECT creator_id FROM projects WHERE id = project_id))
+  WITH CHECK (auth.uid() IN (SELECT creator_id FROM projects WHERE id = project_id));
+
+CREATE POLICY "Project creators can delete requests"
+  ON collaborator_requests FOR DELETE
+  TO authenticated
+  USING (auth.uid() IN (SELECT creator_id FROM projects WHERE id = project_id));
+
+CREATE OR REPLACE FUNCTION lock_collaborator_request_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.project_id := OLD.project_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS collaborator_requests_lock_fields ON collaborator_requests;
+CREATE TRIGGER collaborator_requests_lock_fields
+  BEFORE UPDATE ON collaborator_requests
+  FOR EACH ROW EXECUTE FUNCTION lock_collaborator_request_fields();
+
+CREATE OR REPLACE FUNCTION sync_project_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request collaborator_requests%ROWTYPE;
+  v_other_role text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_request FROM collaborator_requests WHERE id = NEW.request_id;
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO project_members (project_id, user_id, role_type)
+    VALUES (v_request.project_id, NEW.applicant_id, v_request.role_type)
+    ON CONFLICT (project_id, user_id) DO UPDATE SET role_type = EXCLUDED.role_type;
+
+    UPDATE collaborator_requests SET status = 'filled'
+    WHERE id = v_request.id AND status = 'open';
+  ELSIF OLD.status = 'accepted' THEN
+    -- Members accepted for more than one role keep the most recent one that still stands.
+    SELECT r.role_type INTO v_other_role
+    FROM applications a
+    JOIN collaborator_requests r ON r.id = a.request_id
+    WHERE r.project_id = v_request.project_id
+      AND a.applicant_id = NEW.applicant_id
+      AND a.status = 'accepted'
+      AND a.id <> NEW.id
+    ORDER BY a.responded_at DESC NULLS LAST
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE project_members SET role_type = v_other_role
+      WHERE project_id = v_request.project_id AND user_id = NEW.applicant_id;
+    ELSE
+      DELETE FROM project_members
+      WHERE project_id = v_request.project_id AND user_id = NEW.applicant_id;
+    END IF;
+
+    UPDATE collaborator_requests SET status = 'open'
+    WHERE id = v_request.id
+      AND status = 'filled'
+      AND NOT EXISTS (
+        SELECT 1 FROM applications
+        WHERE request_id = v_request.id AND status = 'accepted'
+      );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can apply for roles" ON applications;
+
+CREATE POLICY "Users can apply for roles"
+  ON applications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = applicant_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM collaborator_requests r
+      JOIN projects p ON p.id = r.project_id
+      WHERE r.id = request_id
+        AND r.status = 'open'
+        AND p.creator_id <> auth.uid()
+        AND NOT EXISTS (
+          SELECT 1 FROM project_members m
+          WHERE m.project_id = p.id AND m.user_id = auth.uid()
+        )
+    )
+  );
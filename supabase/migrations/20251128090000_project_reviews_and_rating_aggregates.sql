@@ -0,0 +1,184 @@
+/*
+  # One review per user and server-side project ratings
+
+  The client used to add each new rating to projects.rating_sum/rating_count itself. That
+  update only succeeded for the project's creator, and nothing stopped a user from rating the
+  same project many times.
+
+  ## Changes
+
+  ### project_feedback
+  - One review per user per project (`project_feedback_project_user_key`). Where a user left
+    several, only their most recent one is kept
+  - Add `updated_at` (timestamptz)
+  - Reviewers can edit their review; only `content` and `rating` can change, and
+    `updated_at` is set by the database
+  - Creators can no longer review their own projects; existing self-reviews are removed
+
+  ### projects
+  - `rating_sum` and `rating_count` are maintained by a trigger on project_feedback and can no
+    longer be written by clients. Hidden reviews are not counted
+  - Existing aggregates are recounted from project_feedback
+
+  ## Functions
+  - `project_rating_distribution(p_project_id)`: number of visible reviews for each star
+    rating from 1 to 5
+*/
+
+DELETE FROM project_feedback f
+WHERE EXISTS (
+  SELECT 1 FROM project_feedback newer
+  WHERE newer.project_id = f.project_id
+    AND newer.user_id = f.user_id
+    AND (newer.created_at, newer.id) > (f.created_at, f.id)
+);
+
+DELETE FROM project_feedback f
+USING projects p
+WHERE p.id = f.project_id AND p.creator_id = f.user_id;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'project_feedback_project_user_key'
+  ) THEN
+    ALTER TABLE project_feedback
+      ADD CONSTRAINT project_feedback_project_user_key UNIQUE (project_id, user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_feedback' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE project_feedback ADD COLUMN updated_at timestamptz DEFAULT now();
+    UPDATE project_feedback SET updated_at = created_at;
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Users can create feedback" ON project_feedback;
+DROP POLICY IF EXISTS "Users can update own feedback" ON project_feedback;
+
+CREATE POLICY "Users can create feedback"
+  ON project_feedback FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND auth.uid() NOT IN (SELECT creator_id FROM projects WHERE id = project_id)
+  );
+
+CREATE POLICY "Users can update own feedback"
+  ON project_feedback FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Editing a review may only change its text and rating
+CREATE OR REPLACE FUNCTION lock_feedback_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.project_id := OLD.project_id;
+  NEW.user_id := OLD.user_id;
+  NEW.created_at := OLD.created_at;
+  IF NEW.content IS DISTINCT FROM OLD.content OR NEW.rating IS DISTINCT FROM OLD.rating THEN
+    NEW.updated_at := now();
+  ELSE
+    NEW.updated_at := OLD.updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_feedback_lock_fields ON project_feedback;
+CREATE TRIGGER project_feedback_lock_fields
+  BEFORE UPDATE ON project_feedback
+  FOR EACH ROW EXECUTE FUNCTION lock_feedback_fields();
+
+CREATE OR REPLACE FUNCTION refresh_project_rating(p_project_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('gamesocio.rating_update', 'on', true);
+
+  UPDATE projects p
+  SET rating_sum = s.rating_sum, rating_count = s.rating_count
+  FROM (
+    SELECT coalesce(sum(rating), 0)::integer AS rating_sum, count(rating)::integer AS rating_count
+    FROM project_feedback
+    WHERE project_id = p_project_id AND hidden_at IS NULL
+  ) s
+  WHERE p.id = p_project_id;
+
+  PERFORM set_config('gamesocio.rating_update', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_project_rating(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_feedback_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_project_rating(COALESCE(NEW.project_id, OLD.project_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_feedback_apply_rating ON project_feedback;
+CREATE TRIGGER project_feedback_apply_rating
+  AFTER INSERT OR UPDATE OF rating, hidden_at OR DELETE ON project_feedback
+  FOR EACH ROW EXECUTE FUNCTION apply_feedback_rating();
+
+-- Ignore direct writes to the aggregates; only refresh_project_rating may change them
+CREATE OR REPLACE FUNCTION protect_project_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('gamesocio.rating_update', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.rating_sum := 0;
+      NEW.rating_count := 0;
+    ELSE
+      NEW.rating_sum := OLD.rating_sum;
+      NEW.rating_count := OLD.rating_count;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_protect_rating ON projects;
+CREATE TRIGGER projects_protect_rating
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION protect_project_rating();
+
+CREATE OR REPLACE FUNCTION project_rating_distribution(p_project_id uuid)
+RETURNS TABLE (rating integer, review_count integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.rating, count(f.id)::integer
+  FROM generate_series(1, 5) AS r(rating)
+  LEFT JOIN project_feedback f
+    ON f.project_id = p_project_id AND f.rating = r.rating AND f.hidden_at IS NULL
+  GROUP BY r.rating
+  ORDER BY r.rating DESC;
+$$;
+
+DO $$
+DECLARE
+  v_project_id uuid;
+BEGIN
+  FOR v_project_id IN SELECT id FROM projects LOOP
+    PERFORM refresh_project_rating(v_project_id);
+  END LOOP;
+END $$;
@@ -0,0 +1,224 @@
+/*
+  # Project devlogs and stage history
+
+  ## New Tables
+
+  ### project_updates
+  Devlog entries shown on the project page, newest first
+  - `id` (uuid, primary key)
+  - `project_id` (uuid, references projects)
+  - `author_id` (uuid, references profiles)
+  - `title` (text)
+  - `body` (text): Markdown
+  - `image_urls` (text[]): up to 6 public URLs of screenshots in the project_images bucket
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### project_stage_changes
+  One row per stage a project has been in
+  - `id` (uuid, primary key)
+  - `project_id` (uuid, references projects)
+  - `from_stage` (text, optional): null for the stage a project was created in
+  - `to_stage` (text)
+  - `changed_by` (uuid, references profiles, optional): who changed it
+  - `changed_at` (timestamptz)
+
+  ### project_images storage bucket (NEW)
+  - Public bucket for devlog screenshots, limited to 5 MB PNG, JPEG, WebP or GIF images
+  - Objects live under `<user id>/<project id>/<timestamp>.<ext>`
+
+  ## Functions
+  - `is_project_member(p_project_id)`: whether the caller created the project or joined it
+    through an accepted application
+
+  ## Triggers
+  - Creating a project or changing its stage records a stage change
+  - Only `title`, `body` and `image_urls` of an update can be edited
+  - Every new entry in `image_urls` must be the public URL of an object uploaded to the
+    project's folder in project_images
+  - Existing projects get a stage change for their current stage, dated when they were created
+
+  ## Security
+  - Enable RLS on both tables
+  - Everyone signed in can read updates and stage history
+  - Project members can post updates; authors can edit and delete them, and the project's
+    creator can delete any of them
+  - Stage changes are only written by the trigger
+  - Anyone can view project images; users can only upload to and delete from their own folder
+*/
+
+CREATE OR REPLACE FUNCTION is_project_member(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects WHERE id = p_project_id AND creator_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM project_members WHERE project_id = p_project_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS project_updates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  image_urls text[] DEFAULT '{}' NOT NULL CHECK (cardinality(image_urls) <= 6),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_updates_project_idx ON project_updates(project_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS project_stage_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  from_stage text,
+  to_stage text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_stage_changes_project_idx ON project_stage_changes(project_id, changed_at);
+
+ALTER TABLE project_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_stage_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view project updates"
+  ON project_updates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Project members can post updates"
+  ON project_updates FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = author_id AND is_project_member(project_id));
+
+CREATE POLICY "Authors can edit updates"
+  ON project_updates FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = author_id)
+  WITH CHECK (auth.uid() = author_id);
+
+CREATE POLICY "Authors and project creators can delete updates"
+  ON project_updates FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = author_id
+    OR auth.uid() IN (SELECT creator_id FROM projects WHERE id = project_id)
+  );
+
+CREATE POLICY "Anyone can view stage history"
+  ON project_stage_changes FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Editing an update may only change its content
+CREATE OR REPLACE FUNCTION lock_project_update_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.project_id := OLD.project_id;
+  NEW.author_id := OLD.author_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_updates_lock_fields ON project_updates;
+CREATE TRIGGER project_updates_lock_fields
+  BEFORE UPDATE ON project_updates
+  FOR EACH ROW EXECUTE FUNCTION lock_project_update_fields();
+
+CREATE OR REPLACE FUNCTION check_project_update_images()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url text;
+  v_path text;
+BEGIN
+  FOREACH v_url IN ARRAY NEW.image_urls LOOP
+    CONTINUE WHEN TG_OP = 'UPDATE' AND v_url = ANY (OLD.image_urls);
+
+    v_path := substring(v_url FROM '^https?://[^/]+/storage/v1/object/public/project_images/([^?#]+)$');
+
+    IF v_path IS NULL OR NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'project_images'
+        AND o.name = v_path
+        AND (storage.foldername(o.name))[2] = NEW.project_id::text
+    ) THEN
+      RAISE EXCEPTION 'Devlog images must be uploaded to this project'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_updates_check_images ON project_updates;
+CREATE TRIGGER project_updates_check_images
+  BEFORE INSERT OR UPDATE OF image_urls ON project_updates
+  FOR EACH ROW EXECUTE FUNCTION check_project_update_images();
+
+CREATE OR REPLACE FUNCTION record_project_stage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO project_stage_changes (project_id, from_stage, to_stage, changed_by, changed_at)
+    VALUES (NEW.id, NULL, NEW.stage, NEW.creator_id, NEW.created_at);
+  ELSIF NEW.stage IS DISTINCT FROM OLD.stage THEN
+    INSERT INTO project_stage_changes (project_id, from_stage, to_stage, changed_by)
+    VALUES (NEW.id, OLD.stage, NEW.stage, auth.uid());
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_record_stage ON projects;
+CREATE TRIGGER projects_record_stage
+  AFTER INSERT OR UPDATE OF stage ON projects
+  FOR EACH ROW EXECUTE FUNCTION record_project_stage();
+
+INSERT INTO project_stage_changes (project_id, from_stage, to_stage, changed_by, changed_at)
+SELECT p.id, NULL, p.stage, p.creator_id, p.created_at
+FROM projects p
+WHERE NOT EXISTS (SELECT 1 FROM project_stage_changes c WHERE c.project_id = p.id);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('project_images', 'project_images', true, 5242880, ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view project images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'project_images');
+
+CREATE POLICY "Users can upload own project images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'project_images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own project images"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'project_images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
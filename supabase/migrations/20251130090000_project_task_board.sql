@@ -0,0 +1,176 @@
+/*
+  # Project task boards
+
+  ## New Tables
+
+  ### project_tasks
+  Cards on a project's Kanban board
+  - `id` (uuid, primary key)
+  - `project_id` (uuid, references projects)
+  - `title` (text)
+  - `description` (text, optional)
+  - `status` (text: backlog, in_progress, review, done): the board column
+  - `position` (integer): order within the column, starting at 0
+  - `label` (text, optional: Art, Sound, Code, Writing)
+  - `assignee_id` (uuid, references profiles, optional): must be the project's creator or
+    one of its members
+  - `created_by` (uuid, references profiles)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Functions
+  - `move_project_task(p_task_id, p_status, p_position)`: moves a task to a column and
+    position, shifting the tasks below it down in one statement
+
+  ## Triggers
+  - Assigning a task to someone outside the team is rejected
+  - `project_id`, `created_by` and `created_at` cannot change
+  - Members who leave or are removed are unassigned from the project's tasks
+
+  ## Security
+  - Enable RLS on project_tasks
+  - Everyone signed in can view boards
+  - Only the project's creator and members can create, edit, move and delete tasks
+  - project_tasks is added to the `supabase_realtime` publication so teammates see moves live
+*/
+
+CREATE TABLE IF NOT EXISTS project_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text,
+  status text DEFAULT 'backlog' NOT NULL CHECK (status IN ('backlog', 'in_progress', 'review', 'done')),
+  position integer DEFAULT 0 NOT NULL,
+  label text CHECK (label IN ('Art', 'Sound', 'Code', 'Writing')),
+  assignee_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_tasks_board_idx ON project_tasks(project_id, status, position);
+
+ALTER TABLE project_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view project tasks"
+  ON project_tasks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Project members can create tasks"
+  ON project_tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND is_project_member(project_id));
+
+CREATE POLICY "Project members can update tasks"
+  ON project_tasks FOR UPDATE
+  TO authenticated
+  USING (is_project_member(project_id))
+  WITH CHECK (is_project_member(project_id));
+
+CREATE POLICY "Project members can delete tasks"
+  ON project_tasks FOR DELETE
+  TO authenticated
+  USING (is_project_member(project_id));
+
+CREATE OR REPLACE FUNCTION check_project_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignee_changed boolean := NEW.assignee_id IS NOT NULL;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.project_id := OLD.project_id;
+    -- Cleared by ON DELETE SET NULL when the creator's profile is deleted.
+    IF NEW.created_by IS NOT NULL THEN
+      NEW.created_by := OLD.created_by;
+    END IF;
+    NEW.created_at := OLD.created_at;
+    NEW.updated_at := now();
+    v_assignee_changed := v_assignee_changed AND NEW.assignee_id IS DISTINCT FROM OLD.assignee_id;
+  END IF;
+
+  IF v_assignee_changed
+    AND NOT EXISTS (
+      SELECT 1 FROM projects WHERE id = NEW.project_id AND creator_id = NEW.assignee_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM project_members WHERE project_id = NEW.project_id AND user_id = NEW.assignee_id
+    )
+  THEN
+    RAISE EXCEPTION 'Tasks can only be assigned to project members'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_tasks_check ON project_tasks;
+CREATE TRIGGER project_tasks_check
+  BEFORE INSERT OR UPDATE ON project_tasks
+  FOR EACH ROW EXECUTE FUNCTION check_project_task();
+
+CREATE OR REPLACE FUNCTION unassign_departed_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE project_tasks
+  SET assignee_id = NULL
+  WHERE project_id = OLD.project_id AND assignee_id = OLD.user_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_members_unassign_tasks ON project_members;
+CREATE TRIGGER project_members_unassign_tasks
+  AFTER DELETE ON project_members
+  FOR EACH ROW EXECUTE FUNCTION unassign_departed_member();
+
+CREATE OR REPLACE FUNCTION move_project_task(p_task_id uuid, p_status text, p_position integer)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id uuid;
+BEGIN
+  SELECT project_id INTO v_project_id FROM project_tasks WHERE id = p_task_id;
+
+  IF v_project_id IS NULL OR NOT is_project_member(v_project_id) THEN
+    RAISE EXCEPTION 'Only project members can move tasks'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Renumber the target column without the moved task, leaving a gap at p_position.
+  WITH ordered AS (
+    SELECT id, row_number() OVER (ORDER BY position, created_at) - 1 AS rn
+    FROM project_tasks
+    WHERE project_id = v_project_id AND status = p_status AND id <> p_task_id
+  )
+  UPDATE project_tasks t
+  SET position = CASE WHEN o.rn >= p_position THEN o.rn + 1 ELSE o.rn END
+  FROM ordered o
+  WHERE t.id = o.id;
+
+  UPDATE project_tasks
+  SET status = p_status, position = p_position
+  WHERE id = p_task_id;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'project_tasks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.project_tasks;
+  END IF;
+END $$;